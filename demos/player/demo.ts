@@ -22,7 +22,7 @@ async function getFileWithPermission() {
       types: [{
         description: 'Video Files',
         accept: {
-          'video/*': ['.mp4']
+          'video/*': ['.mp4', '.webm']
         }
       }],
       multiple: false
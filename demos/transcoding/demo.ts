@@ -1,7 +1,10 @@
-import { transcodeFile } from '../../src/transcoding';
+import { transcodeInWorker } from '../../src/transcoding';
 
 console.log('Transcoding demo loaded');
 
+// Aborts the transcode in progress (if any)
+let abortController: AbortController | null = null;
+
 async function processFile(file: File) {
   const statusEl = document.getElementById('status');
   const pipelineStatsEl = document.getElementById('pipeline-stats');
@@ -15,12 +18,19 @@ async function processFile(file: File) {
     pipelineStatsEl.style.display = 'block';
   }
 
+  abortController?.abort();
+  const controller = new AbortController();
+  abortController = controller;
+  const cancelBtn = document.getElementById('cancelBtn') as HTMLButtonElement | null;
+  if (cancelBtn) cancelBtn.disabled = false;
+
   try {
     console.log('Starting transcode for:', file.name, file.size, 'bytes');
 
     // Transcode the file with progress reporting
-    const result = await transcodeFile(file, {
+    const result = await transcodeInWorker(file, {
       method: 'pipeline',
+      signal: controller.signal,
       pipelineOptions: {
         onProgress: (progress) => {
 
@@ -70,7 +80,8 @@ async function processFile(file: File) {
     // Create download link
     const a = document.createElement('a');
     a.href = url;
-    a.download = file.name.replace(/\.[^/.]+$/, '') + '-transcoded.mp4';
+    const extension = result.type.startsWith('audio/') ? '.m4a' : '.mp4';
+    a.download = file.name.replace(/\.[^/.]+$/, '') + '-transcoded' + extension;
     a.textContent = 'Download transcoded video';
     a.style.display = 'block';
     a.style.marginTop = '20px';
@@ -90,11 +101,23 @@ async function processFile(file: File) {
     }
 
   } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      console.log('Transcoding cancelled');
+      if (statusEl) statusEl.textContent = 'Transcoding cancelled.';
+      return;
+    }
+
     console.error('Error transcoding file:', error);
     if (statusEl) {
       statusEl.textContent = `✗ Error: ${error}`;
       statusEl.style.color = 'red';
     }
+  } finally {
+    // A newer transcode may have replaced this one
+    if (abortController === controller) {
+      abortController = null;
+      if (cancelBtn) cancelBtn.disabled = true;
+    }
   }
 }
 
@@ -119,6 +142,13 @@ document.addEventListener('DOMContentLoaded', () => {
   const loadDemoBtn = document.getElementById('loadDemoBtn');
   const uploadBtn = document.getElementById('uploadBtn');
   const fileInput = document.getElementById('fileInput') as HTMLInputElement;
+  const cancelBtn = document.getElementById('cancelBtn');
+
+  if (cancelBtn) {
+    cancelBtn.addEventListener('click', () => {
+      abortController?.abort();
+    });
+  }
 
   if (loadDemoBtn) {
     loadDemoBtn.addEventListener('click', () => {
@@ -1,10 +1,25 @@
 // Main entry point for webcodecs-examples package
 export { WebCodecsPlayer } from './player/index';
+export type { TextTrackInfo, TextTrackOptions, CaptureFrameOptions, CaptureFormat, LoopRange, RangeFetch } from './player/index';
 
 export { transcodeFile } from './transcoding/transcoder';
-export type { TranscodeMethod } from './transcoding/transcoder';
+export type { TranscodeMethod, TranscodeFileOptions } from './transcoding/transcoder';
+export type { TranscodeOptions, TrimMode } from './transcoding/transcode-options';
+export type { VideoOutputOptions, VideoOutputCodec, VideoQuality } from './transcoding/video-output';
 export { transcodePromise } from './transcoding/transcode-promise';
 export { transcodePipeline } from './transcoding/transcode-pipeline';
+export { transcodeInWorker } from './transcoding/transcode-in-worker';
+export * as processors from './transcoding/processors';
+export type { FrameProcessor, ColorAdjustments, Overlay, ImageOverlay, TextOverlay, OverlayPosition, TextStyle, SubtitleStyle, SubtitleBurnInOptions } from './transcoding/processors';
+export type { TranscodeProgress, TranscodePipelineOptions } from './transcoding/transcode-pipeline';
+export { TranscodeJob } from './transcoding/transcode-job';
+export type { TranscodeJobStatus } from './transcoding/transcode-job';
+export { TranscodeQueue } from './transcoding/transcode-queue';
+export { parseSubtitles } from './utils/subtitles';
+export type { SubtitleCue } from './utils/subtitles';
+
+export { generateThumbnails } from './thumbnails/index';
+export type { ThumbnailOptions, ThumbnailTile, ThumbnailSprite } from './thumbnails/index';
 
 export { WebcamRecorder, getWebcam } from './webcam-recording/index';
 
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Clock } from './clock';
+import { WallClock } from './wall-clock';
+import type { VideoWorker } from './renderers/video/video';
+
+const DURATION = 10;
+
+describe('Clock looping', () => {
+  let now: number;
+  let frame: (() => void) | null;
+  let video: { seek: ReturnType<typeof vi.fn>; render: ReturnType<typeof vi.fn>; setPlaybackRate: ReturnType<typeof vi.fn> };
+  let clock: Clock;
+
+  /**
+   * Let wall-clock time pass, then run one tick
+   */
+  const advance = (seconds: number) => {
+    now += seconds * 1000;
+    const tick = frame;
+    frame = null;
+    tick?.();
+  };
+
+  beforeEach(() => {
+    now = 0;
+    frame = null;
+    vi.spyOn(performance, 'now').mockImplementation(() => now);
+    vi.stubGlobal('requestAnimationFrame', (callback: () => void) => {
+      frame = callback;
+      return 1;
+    });
+    vi.stubGlobal('cancelAnimationFrame', () => {
+      frame = null;
+    });
+
+    video = { seek: vi.fn(), render: vi.fn(), setPlaybackRate: vi.fn() };
+    clock = new Clock(new WallClock(), video as unknown as VideoWorker, DURATION);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('wraps round at the end of the file', async () => {
+    const loops: number[] = [];
+    clock.on('loop', (time) => loops.push(time));
+
+    await clock.setLoop(true);
+    await clock.play();
+    advance(5);
+    advance(5.5);
+
+    expect(clock.getCurrentTime()).toBeCloseTo(0.5);
+    expect(loops).toHaveLength(1);
+    expect(video.seek).toHaveBeenLastCalledWith(clock.getCurrentTime());
+  });
+
+  it('carries on from the loop start after seeking to the end while looping', async () => {
+    const ended = vi.fn();
+    const loops: number[] = [];
+    clock.on('ended', ended);
+    clock.on('loop', (time) => loops.push(time));
+
+    await clock.setLoop(true);
+    await clock.play();
+    await clock.seek(DURATION);
+
+    expect(clock.getCurrentTime()).toBe(0);
+    expect(video.seek).toHaveBeenLastCalledWith(0);
+
+    // The timeline still crosses the loop point and wraps
+    advance(4);
+    advance(6.5);
+    expect(clock.getCurrentTime()).toBeCloseTo(0.5);
+    expect(loops).toHaveLength(1);
+    expect(ended).not.toHaveBeenCalled();
+  });
+
+  it('carries on from the A-B start after seeking to b', async () => {
+    await clock.setLoopRange(2, 4);
+    await clock.play();
+    await clock.seek(4);
+
+    expect(clock.getCurrentTime()).toBe(2);
+
+    advance(2.5);
+    expect(clock.getCurrentTime()).toBeCloseTo(2.5);
+  });
+
+  it('starts again from the beginning when looping is turned on after the end', async () => {
+    const ended = vi.fn();
+    clock.on('ended', ended);
+
+    await clock.play();
+    advance(DURATION);
+    expect(ended).toHaveBeenCalled();
+
+    await clock.setLoop(true);
+    await clock.play();
+
+    expect(clock.getCurrentTime()).toBe(0);
+    expect(video.seek).toHaveBeenLastCalledWith(0);
+  });
+});
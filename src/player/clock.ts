@@ -1,22 +1,60 @@
 import EventEmitter from '../utils/EventEmitter';
-import { WebAudioPlayer } from './renderers/audio/audio';
 import { VideoWorker } from './renderers/video/video';
+import { CueIndex, SubtitleCue } from '../utils/subtitles';
+
+/**
+ * A timeline the Clock can follow
+ *
+ * Implemented by WebAudioPlayer (audio timeline) and WallClock
+ * (performance.now() fallback for files without audio).
+ */
+export interface TimeSource {
+  play(): Promise<void>;
+  pause(): void | Promise<void>;
+  seek(time: number): Promise<void>;
+  getCurrentTime(): number;
+  setPlaybackRate(rate: number, preservePitch?: boolean): Promise<void>;
+  checkForPreLoad(): void;
+  wrapLoop(): void; // Re-anchor the timeline at the loop start once past the loop point
+  setLoopRange(range: LoopRange | null): Promise<void>;
+}
+
+/**
+ * Playback jumps from end back to start (seconds) instead of carrying on
+ */
+export interface LoopRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Where playback carries on from a position - at or after the loop end that is the
+ * loop start, since a timeline anchored there would never cross the loop point
+ */
+export function getLoopPosition(time: number, range: LoopRange | null): number {
+  return range && time >= range.end ? range.start : time;
+}
 
 /**
  * Clock - Time Management for Video Playback
  *
  * The Clock is the central coordinator for playback timing. It:
  * - Uses the audio timeline as the source of truth (Web Audio API currentTime)
+ *   or a wall-clock timeline when the file has no audio
  * - Manages the requestAnimationFrame loop
  * - Emits tick events for UI updates
  * - Coordinates video rendering at the correct time
  * - Provides getCurrentTime() for on-demand queries
+ * - Applies the playback rate to both audio and video
+ * - Emits 'cuechange' when the active text track's visible cues change
+ * - Loops the whole file or an A-B range - the time source wraps its timeline,
+ *   the Clock re-seeks video and emits 'loop'
  *
  * Architecture:
  *
  *   Clock (this class)
  *     │
- *     ├─> Queries audioPlayer.getCurrentTime() ← Audio timeline is source of truth
+ *     ├─> Queries timeSource.getCurrentTime() ← Audio timeline is source of truth
  *     ├─> Emits 'tick' events with current time
  *     ├─> Calls videoWorker.render(time) passively
  *     └─> Provides getCurrentTime() for external queries
@@ -25,14 +63,27 @@ import { VideoWorker } from './renderers/video/video';
  * - Web Audio API provides high-precision timing via AudioContext.currentTime
  * - Hardware accelerated and synchronized with audio output
  * - More reliable than performance.now() for A/V sync
+ *
+ * Files without audio fall back to WallClock (performance.now()), since
+ * there is nothing to keep in sync with.
  */
 export class Clock extends EventEmitter {
 
-  private audioPlayer: WebAudioPlayer;
+  private timeSource: TimeSource;
   private videoWorker: VideoWorker;
   private isPlaying: boolean = false;
   private animationFrame: number | null = null;
   private duration: number;
+  private playbackRate: number = 1;
+  private textTrack: CueIndex | null = null;
+  private activeCues: SubtitleCue[] = [];
+  private loop: boolean = false;
+  private loopRange: LoopRange | null = null; // A-B repeat, takes precedence over loop
+  private lastTickTime = 0; // Time seen by the previous tick - going backwards means the timeline wrapped
+
+  // Supported playback rate range
+  static readonly MIN_PLAYBACK_RATE = 0.25;
+  static readonly MAX_PLAYBACK_RATE = 4;
 
   // Frame rate management
   private readonly TARGET_FPS = 30; // Target 30fps for smooth playback
@@ -41,14 +92,14 @@ export class Clock extends EventEmitter {
 
   /**
    * Create a new Clock
-   * @param audioPlayer - Audio player with Web Audio timeline
+   * @param timeSource - Audio player with Web Audio timeline, or WallClock if there is no audio
    * @param videoWorker - Video worker for passive rendering
    * @param duration - Total video duration in seconds
    */
-  constructor(audioPlayer: WebAudioPlayer, videoWorker: VideoWorker, duration: number) {
+  constructor(timeSource: TimeSource, videoWorker: VideoWorker, duration: number) {
     super();
 
-    this.audioPlayer = audioPlayer;
+    this.timeSource = timeSource;
     this.videoWorker = videoWorker;
     this.duration = duration;
     this.FRAME_INTERVAL = 1000 / this.TARGET_FPS;
@@ -63,10 +114,17 @@ export class Clock extends EventEmitter {
   async play(): Promise<void> {
     if (this.isPlaying) return;
 
+    // Stopped at the end (e.g. after 'ended') with looping turned on since
+    const loopRange = this.getActiveLoopRange();
+    if (loopRange && this.getCurrentTime() >= loopRange.end) {
+      await this.seek(loopRange.start);
+    }
+
     this.isPlaying = true;
 
     // Start audio playback (this starts the timeline)
-    await this.audioPlayer.play();
+    await this.timeSource.play();
+    this.lastTickTime = this.timeSource.getCurrentTime();
 
     // Start the tick loop
     this.lastFrameTime = performance.now();
@@ -86,7 +144,7 @@ export class Clock extends EventEmitter {
     this.isPlaying = false;
 
     // Pause audio
-    this.audioPlayer.pause();
+    this.timeSource.pause();
 
     // Stop the tick loop
     if (this.animationFrame) {
@@ -103,13 +161,68 @@ export class Clock extends EventEmitter {
    * @param time - Time in seconds
    */
   async seek(time: number): Promise<void> {
-    const clampedTime = Math.max(0, Math.min(time, this.duration));
+    const clampedTime = getLoopPosition(Math.max(0, Math.min(time, this.duration)), this.getActiveLoopRange());
 
     // Seek both video and audio
     this.videoWorker.seek(clampedTime);
-    await this.audioPlayer.seek(clampedTime);
+    await this.timeSource.seek(clampedTime);
+    this.lastTickTime = clampedTime;
 
     this.emit('seek', clampedTime);
+    this.updateCues(clampedTime);
+  }
+
+  /**
+   * Seek to an exact frame
+   *
+   * Unlike seek(), the video worker draws the frame straight away - even when paused.
+   *
+   * @param timestamp - Frame timestamp in microseconds
+   */
+  async seekToFrame(timestamp: number): Promise<void> {
+    const time = timestamp / 1e6;
+
+    await Promise.all([
+      this.videoWorker.seekToFrame(timestamp),
+      this.timeSource.seek(time)
+    ]);
+    this.lastTickTime = time;
+
+    this.emit('seek', time);
+    this.updateCues(time);
+  }
+
+  /**
+   * Set the playback rate
+   *
+   * The audio player reschedules its segments at the new rate, which changes
+   * how fast the audio timeline advances. Since video renders whatever time
+   * the audio timeline reports, it speeds up / slows down automatically -
+   * the video worker is told the rate so it can decode far enough ahead.
+   *
+   * @param rate - Playback rate (1 = normal speed)
+   * @param preservePitch - Time-stretch audio instead of resampling it (optional)
+   */
+  async setPlaybackRate(rate: number, preservePitch?: boolean): Promise<void> {
+    if (!(rate >= Clock.MIN_PLAYBACK_RATE && rate <= Clock.MAX_PLAYBACK_RATE)) {
+      throw new Error(`Playback rate must be between ${Clock.MIN_PLAYBACK_RATE} and ${Clock.MAX_PLAYBACK_RATE}, got ${rate}`);
+    }
+
+    this.playbackRate = rate;
+
+    await Promise.all([
+      this.videoWorker.setPlaybackRate(rate),
+      this.timeSource.setPlaybackRate(rate, preservePitch)
+    ]);
+
+    this.emit('ratechange', rate);
+  }
+
+  /**
+   * Get the current playback rate
+   */
+  getPlaybackRate(): number {
+    return this.playbackRate;
   }
 
   /**
@@ -120,7 +233,7 @@ export class Clock extends EventEmitter {
    * @returns Current time in seconds
    */
   getCurrentTime(): number {
-    return this.audioPlayer.getCurrentTime();
+    return this.timeSource.getCurrentTime();
   }
 
   /**
@@ -158,10 +271,20 @@ export class Clock extends EventEmitter {
     this.lastFrameTime = now;
 
     // Get current time from audio timeline (source of truth)
-    const currentTime = this.audioPlayer.getCurrentTime();
+    this.timeSource.wrapLoop();
+    const currentTime = this.timeSource.getCurrentTime();
+    const loopRange = this.getActiveLoopRange();
+
+    // The time source wrapped round to the loop start. Audio for the next pass was
+    // already scheduled, but video has to decode from the keyframe before it
+    if (loopRange && currentTime < this.lastTickTime) {
+      this.videoWorker.seek(currentTime);
+      this.emit('loop', currentTime);
+    }
+    this.lastTickTime = currentTime;
 
-    // Check if we've reached the end
-    if (currentTime >= this.duration - 0.1) {
+    // Check if we've reached the end (looping never ends)
+    if (!loopRange && currentTime >= this.duration - 0.1) {
       this.pause();
       this.emit('ended');
       return;
@@ -170,16 +293,109 @@ export class Clock extends EventEmitter {
     // Emit tick event for UI updates
     // UI should listen to this rather than polling getCurrentTime()
     this.emit('tick', currentTime);
+    this.updateCues(currentTime);
 
     // Tell video worker to render at this time (passive)
     // Video worker doesn't track time itself - it just renders whatever we tell it
     this.videoWorker.render(currentTime);
-    this.audioPlayer.checkForPreLoad();
+    this.timeSource.checkForPreLoad();
 
     // Schedule next tick
     this.animationFrame = requestAnimationFrame(() => this.tick());
   }
 
+  /**
+   * Loop the whole file when playback reaches the end
+   */
+  async setLoop(loop: boolean): Promise<void> {
+    // Read before the time source moves a position past the loop end
+    const currentTime = this.getCurrentTime();
+
+    this.loop = loop;
+    const range = this.getActiveLoopRange();
+    await this.timeSource.setLoopRange(range);
+
+    if (range && currentTime >= range.end) {
+      await this.seek(range.start);
+    }
+  }
+
+  isLooping(): boolean {
+    return this.loop;
+  }
+
+  /**
+   * Repeat playback between a and b (A-B repeat)
+   *
+   * Jumps to a first if the current time is outside the range.
+   *
+   * @param start - Loop start in seconds
+   * @param end - Loop end in seconds
+   */
+  async setLoopRange(start: number, end: number): Promise<void> {
+    if (!(start >= 0 && end <= this.duration && start < end)) {
+      throw new Error(`Loop range must satisfy 0 <= start < end <= ${this.duration}, got ${start}-${end}`);
+    }
+
+    // Read before the time source moves a position past the loop end
+    const currentTime = this.getCurrentTime();
+
+    this.loopRange = { start, end };
+    await this.timeSource.setLoopRange(this.loopRange);
+
+    if (currentTime < start || currentTime >= end) {
+      await this.seek(start);
+    }
+  }
+
+  /**
+   * Stop A-B repeat - the whole-file loop setting applies again
+   */
+  async clearLoopRange(): Promise<void> {
+    this.loopRange = null;
+    await this.timeSource.setLoopRange(this.getActiveLoopRange());
+  }
+
+  getLoopRange(): LoopRange | null {
+    return this.loopRange;
+  }
+
+  /**
+   * The range the timeline currently wraps within, if any
+   */
+  private getActiveLoopRange(): LoopRange | null {
+    return this.loopRange ?? (this.loop ? { start: 0, end: this.duration } : null);
+  }
+
+  /**
+   * Set the text track whose cues are emitted as 'cuechange' events (null to turn subtitles off)
+   */
+  setTextTrack(cues: CueIndex | null): void {
+    this.textTrack = cues;
+    this.updateCues(this.getCurrentTime());
+  }
+
+  /**
+   * Get the cues currently showing on the active text track
+   */
+  getActiveCues(): SubtitleCue[] {
+    return this.activeCues;
+  }
+
+  /**
+   * Emit 'cuechange' with the cues showing at this time, if they differ from the last ones
+   */
+  private updateCues(time: number): void {
+    const cues = this.textTrack?.getActiveCues(time) ?? [];
+
+    const changed = cues.length !== this.activeCues.length ||
+      cues.some((cue, i) => cue !== this.activeCues[i]);
+    if (!changed) return;
+
+    this.activeCues = cues;
+    this.emit('cuechange', cues);
+  }
+
   /**
    * Update duration (if needed after initialization)
    */
@@ -0,0 +1,384 @@
+import { MP4Demuxer } from 'webcodecs-utils';
+import type { RangeFetch } from '../http-file';
+import type { AudioTrackInfo, TrackData } from '../player';
+import type { ConfigChange, VideoTrackData } from '../renderers/video/decoder';
+import type { AudioTrackData } from '../renderers/audio/audio';
+import { AbrController } from '../streaming/abr';
+import { ManifestType, Rendition, StreamManifest, loadManifest } from '../streaming/manifest';
+import { SegmentFetcher } from '../streaming/segment-fetcher';
+import type { Demuxer, SegmentOptions, VideoSample } from './demuxer';
+import { FragmentSample, TrackDefaults, childBoxes, getTrackDefaults, indexFragment } from './fragmented-mp4';
+
+// Parsed media segments kept around - enough for a video window plus its neighbours
+const SEGMENT_CACHE_SIZE = 12;
+
+/**
+ * What a rendition's init segment says about one of its tracks
+ */
+interface InitTrack<Config> {
+  trackId: number;
+  timescale: number;
+  config: Config;
+}
+
+interface InitSegment {
+  video?: InitTrack<VideoTrackData>;
+  audio?: InitTrack<AudioTrackData>;
+  defaults: Map<number, TrackDefaults>;
+}
+
+/**
+ * A media segment split into samples - muxed segments hold both tracks
+ */
+interface ParsedSegment {
+  init: InitSegment;
+  data: Uint8Array;
+  samples: Map<number, FragmentSample[]>;   // Track id → samples in decode order
+}
+
+/**
+ * AdaptiveStreamDemuxer - HLS / DASH streams with fMP4 (CMAF) segments
+ *
+ * The manifest lists renditions of the same content at different bitrates, cut
+ * into segments on a shared timeline. Segments are fetched as the video and audio
+ * players ask for time ranges, and for each video segment the AbrController picks
+ * the rendition from the measured throughput and how far ahead of the playhead the
+ * segment is. Chunks keep a reference to their rendition's decoder config, so the
+ * video worker can reconfigure its decoder where the rendition changes.
+ */
+export class AdaptiveStreamDemuxer implements Demuxer {
+  private manifest: StreamManifest;
+  private fetcher: SegmentFetcher;
+  private abr: AbrController;
+  private audioTracks: Rendition[][];   // Track id → the renditions its segments are fetched from
+  private trackData: TrackData;
+
+  private inits: Map<Rendition, Promise<InitSegment>> = new Map();
+  private segments: Map<string, Promise<ParsedSegment>> = new Map();   // `${rendition.id}:${index}`, oldest first
+  private chunkConfigs: WeakMap<EncodedVideoChunk, VideoTrackData> = new WeakMap();
+
+  // Seconds to subtract from media timestamps to get presentation time - set from the first segment
+  private timelineOffset: number | null = null;
+
+  private constructor(manifest: StreamManifest, fetcher: SegmentFetcher) {
+    this.manifest = manifest;
+    this.fetcher = fetcher;
+    this.abr = new AbrController(manifest.video);
+
+    // A track's renditions are the same audio at different bitrates, and audio is small
+    // next to video - stick with the best one. Muxed audio follows the video rendition
+    this.audioTracks = manifest.audio === manifest.video
+      ? [manifest.video]
+      : groupTracks(manifest.audio).map((renditions) => renditions.slice(-1));
+
+    this.trackData = { duration: manifest.duration, audioTracks: [] };
+  }
+
+  /**
+   * Load the manifest and the init segments of the starting renditions
+   * @throws Error if the manifest can't be parsed or no video rendition can be decoded
+   */
+  static async open(url: string, type: ManifestType, fetchFn: RangeFetch): Promise<AdaptiveStreamDemuxer> {
+    const manifest = await loadManifest(url, type, fetchFn);
+    const muxed = manifest.audio === manifest.video;
+
+    manifest.video = await filterSupported(manifest.video);
+    if (muxed) manifest.audio = manifest.video;
+
+    const demuxer = new AdaptiveStreamDemuxer(manifest, new SegmentFetcher(fetchFn));
+    await demuxer.load();
+    return demuxer;
+  }
+
+  private async load() {
+    const videoRendition = this.manifest.video.length > 0 ? this.abr.getCurrent() : null;
+
+    const [videoInit, ...audioInits] = await Promise.all([
+      videoRendition && this.getInit(videoRendition),
+      ...this.audioTracks.map((renditions) => this.getInit(renditions[0])),
+    ]);
+
+    // Muxed renditions may turn out not to have audio at all
+    const audioTracks: AudioTrackInfo[] = [];
+    audioInits.forEach((init, id) => {
+      const rendition = this.audioTracks[id][0];
+      if (init.audio) {
+        audioTracks.push({ ...init.audio.config, id, language: rendition.language, label: rendition.label });
+      }
+    });
+
+    this.trackData = {
+      duration: this.manifest.duration,
+      video: videoInit?.video && {
+        ...videoInit.video.config,
+        frameRate: getFrameRate(videoInit.video.config),
+      },
+      audio: audioTracks.find((track) => this.audioTracks[track.id][0].isDefault) ?? audioTracks[0],
+      audioTracks,
+      renditions: this.manifest.video.map((rendition) => ({
+        id: rendition.id,
+        bandwidth: rendition.bandwidth,
+        codec: rendition.codecs,
+        width: rendition.width,
+        height: rendition.height,
+      })),
+    };
+
+    if (!this.trackData.video && !this.trackData.audio) {
+      throw new Error('No video or audio track in the stream');
+    }
+  }
+
+  getTracks(): TrackData {
+    return this.trackData;
+  }
+
+  /**
+   * @param options.playhead - Current playback position in seconds - the further ahead
+   * of it a segment is, the more buffer there is to risk a higher rendition on
+   */
+  async extractSegment(type: 'audio' | 'video', start: number, end: number, options?: SegmentOptions): Promise<EncodedVideoChunk[] | EncodedAudioChunk[]> {
+    const renditions = type === 'video' ? this.manifest.video : this.getAudioRenditions(options?.trackId);
+    if (!this.trackData[type] || renditions.length === 0) return [];
+
+    // Renditions are cut at the same times, so any of them gives the segment indexes
+    const indexes: number[] = [];
+    renditions[0].segments.forEach((segment, i) => {
+      if (segment.start < end && segment.start + segment.duration > start) indexes.push(i);
+    });
+
+    // One at a time - each download feeds the throughput estimate the next choice uses
+    const samples: { sample: FragmentSample; timescale: number; segment: ParsedSegment }[] = [];
+    for (const index of indexes) {
+      const segment = await this.getSegment(renditions, index, type, options?.playhead ?? start);
+      const track = segment.init[type];
+      if (!track) continue;
+
+      for (const sample of segment.samples.get(track.trackId) ?? []) {
+        samples.push({ sample, timescale: track.timescale, segment });
+      }
+    }
+
+    const offset = this.timelineOffset ?? 0;
+    const time = (sample: FragmentSample, timescale: number) => sample.cts / timescale - offset;
+
+    // Same selection as FragmentedMP4Demuxer - from the keyframe at or before start
+    let first = 0;
+    for (let i = 0; i < samples.length; i++) {
+      if (!samples[i].sample.keyframe) continue;
+      if (time(samples[i].sample, samples[i].timescale) > start) break;
+      first = i;
+    }
+
+    const chunks: (EncodedVideoChunk | EncodedAudioChunk)[] = [];
+    const Chunk = type === 'audio' ? EncodedAudioChunk : EncodedVideoChunk;
+
+    for (const { sample, timescale, segment } of samples.slice(first)) {
+      if (time(sample, timescale) >= end) continue;
+
+      const chunk = new Chunk({
+        type: sample.keyframe ? 'key' : 'delta',
+        timestamp: Math.round(1e6 * time(sample, timescale)),
+        duration: Math.round(1e6 * (sample.duration / timescale)),
+        data: segment.data.subarray(sample.offset, sample.offset + sample.size),
+      });
+
+      if (chunk instanceof EncodedVideoChunk) {
+        this.chunkConfigs.set(chunk, segment.init.video!.config);
+      }
+      chunks.push(chunk);
+    }
+
+    return chunks as EncodedVideoChunk[] | EncodedAudioChunk[];
+  }
+
+  /**
+   * Where the rendition (and so the decoder config) changes - always including the first chunk
+   */
+  getVideoConfigChanges(chunks: EncodedVideoChunk[]): ConfigChange[] {
+    const changes: ConfigChange[] = [];
+    let previous: VideoTrackData | undefined;
+
+    chunks.forEach((chunk, index) => {
+      const config = this.chunkConfigs.get(chunk);
+      if (config && config !== previous) {
+        changes.push({ index, config });
+        previous = config;
+      }
+    });
+
+    return changes;
+  }
+
+  /**
+   * Listing every frame would mean downloading every segment
+   */
+  async getVideoSamples(): Promise<VideoSample[]> {
+    throw new Error('Frame timestamps are not available for adaptive streams');
+  }
+
+  /**
+   * Throughput estimate and the video rendition currently chosen, for debugging
+   */
+  getStreamInfo() {
+    const rendition = this.abr.getCurrent();
+
+    return {
+      type: this.manifest.type,
+      throughput: this.fetcher.getThroughput(),
+      rendition: rendition ? { id: rendition.id, bandwidth: rendition.bandwidth, width: rendition.width, height: rendition.height } : null,
+    };
+  }
+
+  /**
+   * @param trackId - The default track when absent
+   */
+  private getAudioRenditions(trackId: number | undefined = this.trackData.audio?.id): Rendition[] {
+    if (trackId === undefined) return [];
+
+    if (!this.trackData.audioTracks.some((track) => track.id === trackId)) {
+      throw new Error(`No audio track with id ${trackId}`);
+    }
+    return this.audioTracks[trackId];
+  }
+
+  /**
+   * A parsed segment - reusing one already fetched in any rendition, otherwise
+   * fetching it in the rendition the ABR picks
+   *
+   * Only video requests make an ABR choice - the audio player sends no playhead, so
+   * muxed audio takes the video rendition currently chosen instead.
+   */
+  private getSegment(renditions: Rendition[], index: number, type: 'audio' | 'video', playhead: number): Promise<ParsedSegment> {
+    for (const rendition of renditions) {
+      const cached = this.segments.get(`${rendition.id}:${index}`);
+      if (cached) return cached;
+    }
+
+    let rendition = renditions[0];
+    if (type === 'video') {
+      const segment = rendition.segments[index];
+      rendition = renditions[this.abr.choose(this.fetcher.getThroughput(), segment.start - playhead)];
+    } else if (renditions === this.manifest.video) {
+      rendition = this.abr.getCurrent();
+    }
+
+    const key = `${rendition.id}:${index}`;
+    const parsed = this.loadSegment(rendition, index);
+    this.segments.set(key, parsed);
+
+    // Failed downloads aren't cached, so a later request can retry
+    parsed.catch(() => this.segments.delete(key));
+
+    while (this.segments.size > SEGMENT_CACHE_SIZE) {
+      this.segments.delete(this.segments.keys().next().value!);
+    }
+
+    return parsed;
+  }
+
+  private async loadSegment(rendition: Rendition, index: number): Promise<ParsedSegment> {
+    const [init, buffer] = await Promise.all([
+      this.getInit(rendition),
+      this.fetcher.fetch(rendition.segments[index]),
+    ]);
+
+    const samples = new Map<number, FragmentSample[]>();
+    for (const track of [init.video, init.audio]) {
+      if (track) samples.set(track.trackId, []);
+    }
+
+    // Offsets are relative to the start of the segment, so samples index straight into it
+    const view = new DataView(buffer);
+    for (const box of childBoxes(view, 0, buffer.byteLength)) {
+      if (box.type === 'moof') {
+        indexFragment(new DataView(buffer, box.start, box.end - box.start), box.start, samples, init.defaults);
+      }
+    }
+
+    // Media timestamps may not start at zero (e.g. DASH presentationTimeOffset, or HLS
+    // segments cut from a longer stream) - line the first segment up with the manifest
+    const track = init.video ?? init.audio;
+    const first = track && samples.get(track.trackId)?.[0];
+    if (this.timelineOffset === null && track && first) {
+      this.timelineOffset = first.dts / track.timescale - rendition.segments[index].start;
+    }
+
+    return { init, data: new Uint8Array(buffer), samples };
+  }
+
+  private getInit(rendition: Rendition): Promise<InitSegment> {
+    let init = this.inits.get(rendition);
+
+    if (!init) {
+      init = this.fetcher.fetch(rendition.init).then(parseInitSegment);
+      init.catch(() => this.inits.delete(rendition));
+      this.inits.set(rendition, init);
+    }
+
+    return init;
+  }
+}
+
+/**
+ * Track configs and sample defaults from an init segment (ftyp + moov)
+ */
+async function parseInitSegment(buffer: ArrayBuffer): Promise<InitSegment> {
+  const mp4 = new MP4Demuxer(new Blob([buffer]));
+  await mp4.load();
+
+  const info = mp4.getInfo();
+  const tracks = mp4.getTracks();
+  const videoTrack = info.videoTracks[0];
+  const audioTrack = info.audioTracks[0];
+
+  return {
+    video: videoTrack && tracks.video && { trackId: videoTrack.id, timescale: videoTrack.timescale, config: tracks.video },
+    audio: audioTrack && tracks.audio && { trackId: audioTrack.id, timescale: audioTrack.timescale, config: tracks.audio },
+    defaults: getTrackDefaults(mp4),
+  };
+}
+
+/**
+ * Audio renditions per track, in order of first appearance
+ */
+function groupTracks(renditions: Rendition[]): Rendition[][] {
+  const tracks = new Map<string, Rendition[]>();
+
+  for (const rendition of renditions) {
+    const key = rendition.track ?? '';
+    tracks.set(key, [...tracks.get(key) ?? [], rendition]);
+  }
+
+  return [...tracks.values()];
+}
+
+/**
+ * MP4Demuxer counts samples in the moov for the frame rate, and an init segment
+ * has none - fall back to 30 like a stream without timing info would
+ */
+function getFrameRate(config: VideoTrackData): number {
+  return Number.isFinite(config.frameRate) && config.frameRate > 0 ? config.frameRate : 30;
+}
+
+/**
+ * Drop renditions the browser can't decode, judging by the manifest's codec strings
+ * @throws Error if none are left
+ */
+async function filterSupported(renditions: Rendition[]): Promise<Rendition[]> {
+  if (renditions.length === 0) return renditions;
+
+  const supported = await Promise.all(renditions.map(async (rendition) => {
+    const codec = rendition.codecs?.split(',').map((codec) => codec.trim()).find((codec) => !/^(mp4a|opus|ac-3|ec-3|flac)/.test(codec));
+    if (!codec || !rendition.width || !rendition.height) return true;   // Nothing to check until the init segment is loaded
+
+    const { supported } = await VideoDecoder.isConfigSupported({ codec, codedWidth: rendition.width, codedHeight: rendition.height });
+    return !!supported;
+  }));
+
+  const playable = renditions.filter((_, i) => supported[i]);
+  if (playable.length === 0) {
+    throw new Error('None of the stream\'s video renditions can be decoded in this browser');
+  }
+  return playable;
+}
@@ -0,0 +1,69 @@
+import type { TrackData } from '../player';
+import type { ConfigChange } from '../renderers/video/decoder';
+
+/**
+ * What the file worker needs from a container demuxer
+ *
+ * One implementation per container, plus one for HLS / DASH streams - file.ts picks
+ * one with detectContainer() (or getManifestType() for stream URLs) and answers
+ * every worker command (get-tracks, get-video-segment, ...) through it.
+ */
+export interface Demuxer {
+  /** Duration, decoder configs for the first video / default audio track, and every audio track */
+  getTracks(): TrackData;
+
+  /**
+   * Encoded chunks for a time range, in decode order, starting from the keyframe
+   * at or before start and ending before end
+   * @param start - Start time in seconds
+   * @param end - End time in seconds
+   */
+  extractSegment(type: 'audio' | 'video', start: number, end: number, options?: SegmentOptions): Promise<EncodedVideoChunk[] | EncodedAudioChunk[]>;
+
+  /** Every video sample in presentation order */
+  getVideoSamples(): Promise<VideoSample[]>;
+
+  /**
+   * Where the decoder config changes within chunks returned by extractSegment() -
+   * only adaptive streams switch renditions, files use getTracks().video throughout
+   */
+  getVideoConfigChanges?(chunks: EncodedVideoChunk[]): ConfigChange[];
+}
+
+export interface SegmentOptions {
+  /** Audio track to read, from getTracks().audioTracks - the default track when absent */
+  trackId?: number;
+  /**
+   * Current playback position in seconds, for demuxers that pick a rendition by
+   * how much is buffered ahead of it
+   */
+  playhead?: number;
+}
+
+export interface VideoSample {
+  timestamp: number;   // Presentation timestamp in microseconds, exactly as on the EncodedVideoChunk
+  keyframe: boolean;
+}
+
+export type Container = 'mp4' | 'webm';
+
+/**
+ * What the demuxer reads from - a File / Blob, or an HttpFile
+ */
+export interface ByteSource {
+  size: number;
+  slice(start: number, end: number): { arrayBuffer(): Promise<ArrayBuffer> };
+}
+
+// Every Matroska / WebM file starts with an EBML header element
+const EBML_MAGIC = [0x1a, 0x45, 0xdf, 0xa3];
+
+/**
+ * Tell the container apart from the first bytes - anything that isn't EBML is
+ * handed to the MP4 demuxer, which reports files it can't parse
+ */
+export async function detectContainer(file: ByteSource): Promise<Container> {
+  const header = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+
+  return EBML_MAGIC.every((byte, i) => header[i] === byte) ? 'webm' : 'mp4';
+}
@@ -0,0 +1,581 @@
+import { MP4Demuxer } from 'webcodecs-utils';
+import type { AudioTrackInfo, TrackData } from '../player';
+import { parseSidx } from '../streaming/dash';
+import type { ByteSource, Demuxer, SegmentOptions, VideoSample } from './demuxer';
+import { getMP4BoxFile } from '../../utils/mp4box';
+
+/**
+ * FragmentedMP4Demuxer - demuxes fragmented MP4 (fMP4 / CMAF) files
+ *
+ * MP4Demuxer finds samples through the moov sample table, which is empty in a
+ * fragmented file - the samples are described by a moof box in front of each mdat.
+ * This reuses MP4Demuxer for the moov (tracks, codec configs) and indexes the
+ * fragments itself. With a sidx, fragments are only read as their time ranges are
+ * asked for - without one, every moof is found up front by walking the top-level boxes.
+ */
+
+export interface FragmentSample {
+  dts: number;         // Decode time, in the track timescale
+  cts: number;         // Presentation time, in the track timescale
+  duration: number;    // In the track timescale
+  offset: number;      // Byte offset in the file
+  size: number;
+  keyframe: boolean;
+}
+
+export interface TrackDefaults {
+  duration: number;
+  size: number;
+  flags: number;
+}
+
+/**
+ * A fragment listed in the sidx - indexed the first time its samples are needed
+ */
+interface IndexedFragment {
+  start: number;       // Byte range, end exclusive
+  end: number;
+  time: number;        // Seconds, as in the sidx
+  duration: number;
+  samples: Promise<Map<number, FragmentSample[]>> | null;   // Track id → samples in decode order
+}
+
+// Bytes read at a time while walking boxes - enough for a moof and the headers around it
+const READ_AHEAD = 64 * 1024;
+
+// tfhd flags
+const TFHD_BASE_DATA_OFFSET = 0x000001;
+const TFHD_SAMPLE_DESCRIPTION_INDEX = 0x000002;
+const TFHD_DEFAULT_DURATION = 0x000008;
+const TFHD_DEFAULT_SIZE = 0x000010;
+const TFHD_DEFAULT_FLAGS = 0x000020;
+const TFHD_DEFAULT_BASE_IS_MOOF = 0x020000;
+
+// trun flags
+const TRUN_DATA_OFFSET = 0x001;
+const TRUN_FIRST_SAMPLE_FLAGS = 0x004;
+const TRUN_SAMPLE_DURATION = 0x100;
+const TRUN_SAMPLE_SIZE = 0x200;
+const TRUN_SAMPLE_FLAGS = 0x400;
+const TRUN_SAMPLE_CTS_OFFSET = 0x800;
+
+// sample_is_non_sync_sample bit of the sample flags
+const SAMPLE_NON_SYNC = 0x10000;
+
+export class FragmentedMP4Demuxer implements Demuxer {
+  private file: ByteSource;
+  private mp4: MP4Demuxer;
+  private samples: Map<number, FragmentSample[]> = new Map();   // Track id → samples in decode order
+  private fragments: IndexedFragment[] | null = null;   // From the sidx - null when every moof was indexed up front
+  private defaults: Map<number, TrackDefaults> = new Map();
+  private trackData: TrackData | null = null;
+  private window: { offset: number; view: DataView } | null = null;   // Last read - see read()
+
+  /**
+   * @param file - The file the MP4Demuxer was created with
+   * @param mp4 - An MP4Demuxer that has already loaded the file's moov
+   */
+  constructor(file: ByteSource, mp4: MP4Demuxer) {
+    this.file = file;
+    this.mp4 = mp4;
+  }
+
+  /**
+   * Find the fragments and work out the durations the moov doesn't have
+   */
+  async load() {
+    const info = this.mp4.getInfo();
+    this.defaults = getTrackDefaults(this.mp4);
+
+    const tracks = this.mp4.getTracks();
+    const audioTracks = getAudioTracks(this.mp4);
+    const videoTrack = info.videoTracks[0];
+    const audioTrack = info.audioTracks[0];
+
+    this.fragments = await this.readSidx();
+
+    // MP4Demuxer reads the duration from the mvhd, which is usually 0 in fragmented
+    // files, and the frame rate from the moov sample table, which is empty
+    let duration: number;
+    let frameRate: number | undefined;
+
+    if (this.fragments) {
+      // The sidx has the duration - the frame rate comes from the first fragment
+      const last = this.fragments[this.fragments.length - 1];
+      duration = last.time + last.duration;
+
+      const firstSamples = videoTrack ? (await this.loadFragment(0)).get(videoTrack.id) ?? [] : [];
+      const firstDuration = firstSamples.reduce((total, sample) => total + sample.duration, 0) / (videoTrack?.timescale ?? 1);
+      if (firstDuration > 0) frameRate = firstSamples.length / firstDuration;
+    } else {
+      this.samples = this.createSampleMap();
+      await this.indexFragments(0, this.file.size, this.samples);
+
+      const videoDuration = videoTrack ? this.getTrackDuration(videoTrack.id, videoTrack.timescale) : 0;
+      const audioDuration = audioTrack ? this.getTrackDuration(audioTrack.id, audioTrack.timescale) : 0;
+      duration = Math.max(videoDuration, audioDuration);
+      if (videoDuration > 0) frameRate = this.samples.get(videoTrack.id)!.length / videoDuration;
+    }
+
+    this.trackData = {
+      ...tracks,
+      audio: audioTracks[0],
+      audioTracks,
+      duration,
+      video: tracks.video && { ...tracks.video, frameRate: frameRate ?? tracks.video.frameRate },
+    };
+  }
+
+  getTracks(): TrackData {
+    if (!this.trackData) {
+      throw new Error('FragmentedMP4Demuxer: Must call load() before getTracks()');
+    }
+    return this.trackData;
+  }
+
+  /**
+   * With a sidx, this reads every fragment that hasn't been read yet
+   */
+  async getVideoSamples(): Promise<VideoSample[]> {
+    const { samples, timescale } = await this.getSamples('video');
+
+    return samples
+      .map((sample) => ({
+        timestamp: Math.round(1e6 * (sample.cts / timescale)),
+        keyframe: sample.keyframe,
+      }))
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * Extract encoded chunks for a time range, starting from the keyframe at or
+   * before the start time - same behaviour as MP4Demuxer.extractSegment()
+   * @param start - Start time in seconds
+   * @param end - End time in seconds
+   */
+  async extractSegment(type: 'audio' | 'video', start: number, end: number, options?: SegmentOptions): Promise<EncodedVideoChunk[] | EncodedAudioChunk[]> {
+    if (!this.trackData) {
+      throw new Error('FragmentedMP4Demuxer: Must call load() before extractSegment()');
+    }
+
+    const { samples, timescale } = await this.getSamples(type, options?.trackId, start, end);
+    return extractSamples(this.file, samples, timescale, type, start, end);
+  }
+
+  /**
+   * Samples of a track in decode order, with their timescale
+   *
+   * With a sidx, only the fragments overlapping start-end are indexed, plus earlier
+   * ones until there is a keyframe at or before start.
+   * @param trackId - Audio track to read - the first track of the type when absent
+   */
+  private async getSamples(
+    type: 'audio' | 'video',
+    trackId?: number,
+    start = 0,
+    end = Infinity
+  ): Promise<{ samples: FragmentSample[]; timescale: number }> {
+    const info = this.mp4.getInfo();
+    const track = type === 'audio'
+      ? (trackId === undefined ? info.audioTracks[0] : info.audioTracks.find((audioTrack: { id: number }) => audioTrack.id === trackId))
+      : info.videoTracks[0];
+    if (!track) {
+      if (trackId !== undefined) throw new Error(`No audio track with id ${trackId}`);
+      return { samples: [], timescale: 1 };
+    }
+
+    const timescale: number = track.timescale;
+    if (!this.fragments) {
+      return { samples: this.samples.get(track.id) ?? [], timescale };
+    }
+
+    const fragments = this.fragments;
+    let first = 0;
+    while (first < fragments.length - 1 && fragments[first].time + fragments[first].duration <= start) first++;
+    let last = first;
+    while (last < fragments.length - 1 && fragments[last + 1].time < end) last++;
+
+    // One at a time, like the rest of the reads
+    const samples: FragmentSample[] = [];
+    for (let i = first; i <= last; i++) {
+      samples.push(...(await this.loadFragment(i)).get(track.id) ?? []);
+    }
+
+    while (first > 0 && !samples.some((sample) => sample.keyframe && sample.cts / timescale <= start)) {
+      first--;
+      samples.unshift(...(await this.loadFragment(first)).get(track.id) ?? []);
+    }
+
+    return { samples, timescale };
+  }
+
+  private getTrackDuration(trackId: number, timescale: number): number {
+    let end = 0;
+    for (const sample of this.samples.get(trackId) ?? []) {
+      end = Math.max(end, sample.cts + sample.duration);
+    }
+    return end / timescale;
+  }
+
+  private createSampleMap(): Map<number, FragmentSample[]> {
+    return new Map(this.mp4.getInfo().tracks.map((track: { id: number }) => [track.id, []]));
+  }
+
+  /**
+   * The fragments listed in the sidx in front of the first moof
+   *
+   * Null when there isn't one, or it can't be used as the index of the whole file -
+   * nested, or one sidx per track (fragments then have to be found by walking the boxes).
+   */
+  private async readSidx(): Promise<IndexedFragment[] | null> {
+    let sidx: { offset: number; size: number } | null = null;
+    let offset = 0;
+
+    while (offset + 8 <= this.file.size) {
+      const { type, size } = await this.readBoxHeader(offset);
+      if (size < 8 || type === 'moof') break;
+
+      if (type === 'sidx') {
+        if (sidx) return null;
+        sidx = { offset, size };
+      }
+      offset += size;
+    }
+    if (!sidx) return null;
+
+    let segments;
+    try {
+      segments = parseSidx(await this.read(sidx.offset, sidx.offset + sidx.size), sidx.offset, 0, 'fragmented MP4');
+    } catch {
+      return null;
+    }
+
+    // Only an index that runs up to the end of the file lists every fragment
+    const last = segments[segments.length - 1];
+    if (!last || last.range!.end !== this.file.size) return null;
+
+    return segments.map((segment) => ({
+      start: segment.range!.start,
+      end: segment.range!.end,
+      time: segment.start,
+      duration: segment.duration,
+      samples: null,
+    }));
+  }
+
+  /**
+   * A sidx fragment's samples, indexing it on first use
+   */
+  private loadFragment(index: number): Promise<Map<number, FragmentSample[]>> {
+    const fragment = this.fragments![index];
+
+    fragment.samples ??= (async () => {
+      const samples = this.createSampleMap();
+      await this.indexFragments(fragment.start, fragment.end, samples);
+      return samples;
+    })().catch((error) => {
+      // Let the next request try again
+      fragment.samples = null;
+      throw error;
+    });
+
+    return fragment.samples;
+  }
+
+  /**
+   * Index every moof among the top-level boxes in [start, end)
+   */
+  private async indexFragments(start: number, end: number, samples: Map<number, FragmentSample[]>) {
+    let offset = start;
+
+    while (offset + 8 <= end) {
+      const { type, size } = await this.readBoxHeader(offset);
+      if (size < 8) break;   // Not a box - stop rather than guess
+
+      if (type === 'moof') {
+        indexFragment(await this.read(offset, offset + size), offset, samples, this.defaults);
+      }
+
+      offset += size;
+    }
+  }
+
+  private async readBoxHeader(offset: number): Promise<{ type: string; size: number }> {
+    const header = await this.read(offset, Math.min(offset + 16, this.file.size));
+    const type = String.fromCharCode(
+      header.getUint8(4), header.getUint8(5), header.getUint8(6), header.getUint8(7)
+    );
+
+    let size = header.getUint32(0);
+    if (size === 1 && header.byteLength >= 16) {
+      size = Number(header.getBigUint64(8));
+    } else if (size === 0) {
+      size = this.file.size - offset;   // Box runs to the end of the file
+    }
+
+    return { type, size };
+  }
+
+  /**
+   * Bytes [start, end) of the file, reading at least READ_AHEAD at a time
+   *
+   * Reads that fall inside the previous one are answered from it, so a moof, the
+   * box headers around it and any small boxes in between cost one read - for an
+   * HttpFile, one Range request per fragment rather than one per box.
+   */
+  private async read(start: number, end: number): Promise<DataView> {
+    let window = this.window;
+
+    if (!window || start < window.offset || end > window.offset + window.view.byteLength) {
+      const readEnd = Math.min(Math.max(end, start + READ_AHEAD), this.file.size);
+      window = { offset: start, view: new DataView(await this.file.slice(start, readEnd).arrayBuffer()) };
+      this.window = window;
+    }
+
+    return new DataView(window.view.buffer, window.view.byteOffset + start - window.offset, end - start);
+  }
+}
+
+/**
+ * Chunks for a time range of one track, starting from the keyframe at or before
+ * start - same behaviour as MP4Demuxer.extractSegment()
+ * @param samples - The track's samples in decode order
+ */
+export async function extractSamples(
+  file: ByteSource,
+  samples: FragmentSample[],
+  timescale: number,
+  type: 'audio' | 'video',
+  start: number,
+  end: number
+): Promise<EncodedVideoChunk[] | EncodedAudioChunk[]> {
+  // Keyframes are in presentation order even when the frames between them aren't
+  let first = 0;
+  for (let i = 0; i < samples.length; i++) {
+    if (!samples[i].keyframe) continue;
+    if (samples[i].cts / timescale > start) break;
+    first = i;
+  }
+
+  const selected: FragmentSample[] = [];
+  for (let i = first; i < samples.length && samples[i].dts / timescale < end; i++) {
+    if (samples[i].cts / timescale < end) selected.push(samples[i]);
+  }
+
+  const data = await readSamples(file, selected);
+  const Chunk = type === 'audio' ? EncodedAudioChunk : EncodedVideoChunk;
+
+  return selected.map((sample, i) => new Chunk({
+    type: sample.keyframe ? 'key' : 'delta',
+    timestamp: Math.round(1e6 * (sample.cts / timescale)),
+    duration: Math.round(1e6 * (sample.duration / timescale)),
+    data: data[i],
+  })) as EncodedVideoChunk[] | EncodedAudioChunk[];
+}
+
+/**
+ * Read sample data, one read per run of samples that sit next to each other in
+ * the file (a trun's samples are contiguous, so usually one read per fragment)
+ */
+async function readSamples(file: ByteSource, samples: FragmentSample[]): Promise<Uint8Array[]> {
+  const data: Uint8Array[] = [];
+  let runStart = 0;
+
+  for (let i = 1; i <= samples.length; i++) {
+    const previous = samples[i - 1];
+    if (i < samples.length && samples[i].offset === previous.offset + previous.size) continue;
+
+    const start = samples[runStart].offset;
+    const bytes = new Uint8Array(await file.slice(start, previous.offset + previous.size).arrayBuffer());
+
+    for (let j = runStart; j < i; j++) {
+      data.push(bytes.subarray(samples[j].offset - start, samples[j].offset - start + samples[j].size));
+    }
+    runStart = i;
+  }
+
+  return data;
+}
+
+/**
+ * Every audio track in the moov - MP4Demuxer.getTracks() only describes the first.
+ * Configs are built the same way MP4Demuxer builds that one.
+ */
+export function getAudioTracks(mp4: MP4Demuxer): AudioTrackInfo[] {
+  return mp4.getInfo().audioTracks.map((track: any) => ({
+    id: track.id,
+    codec: track.codec,
+    sampleRate: track.audio?.sample_rate ?? track.timescale,
+    numberOfChannels: track.audio?.channel_count ?? 2,
+    language: track.language && track.language !== 'und' ? track.language : undefined,
+    label: track.name || undefined,   // hdlr name - muxers like FFmpeg write the track title here
+  }));
+}
+
+/**
+ * Per-track sample defaults from the moov's trex boxes, for trafs that don't set their own
+ */
+export function getTrackDefaults(mp4: MP4Demuxer): Map<number, TrackDefaults> {
+  const defaults = new Map<number, TrackDefaults>();
+
+  for (const trex of getMP4BoxFile(mp4).moov.mvex?.trexs ?? []) {
+    defaults.set(trex.track_id, {
+      duration: trex.default_sample_duration,
+      size: trex.default_sample_size,
+      flags: trex.default_sample_flags,
+    });
+  }
+
+  return defaults;
+}
+
+/**
+ * Add the samples of every traf in a moof to a per-track index
+ * @param moof - The whole moof box
+ * @param moofOffset - Where the moof starts in the file (sample offsets are relative to the same origin)
+ * @param samplesByTrack - Track id → samples in decode order - trafs of other tracks are skipped
+ */
+export function indexFragment(
+  moof: DataView,
+  moofOffset: number,
+  samplesByTrack: Map<number, FragmentSample[]>,
+  defaults: Map<number, TrackDefaults>
+) {
+  // Without an explicit base, the first traf's data starts at the moof and each
+  // following traf's data follows on from the previous one
+  let nextDataOffset = moofOffset;
+
+  for (const traf of childBoxes(moof, 8, moof.byteLength)) {
+    if (traf.type !== 'traf') continue;
+
+    const children = childBoxes(moof, traf.start + 8, traf.end);
+    const tfhd = children.find((box) => box.type === 'tfhd');
+    if (!tfhd) continue;
+
+    // tfhd
+    const tfhdFlags = moof.getUint32(tfhd.start + 8) & 0xffffff;
+    const trackId = moof.getUint32(tfhd.start + 12);
+    const samples = samplesByTrack.get(trackId);
+    if (!samples) continue;
+
+    const trex = defaults.get(trackId) ?? { duration: 0, size: 0, flags: 0 };
+    let cursor = tfhd.start + 16;
+    let baseDataOffset = tfhdFlags & TFHD_DEFAULT_BASE_IS_MOOF ? moofOffset : nextDataOffset;
+
+    if (tfhdFlags & TFHD_BASE_DATA_OFFSET) {
+      baseDataOffset = Number(moof.getBigUint64(cursor));
+      cursor += 8;
+    }
+    if (tfhdFlags & TFHD_SAMPLE_DESCRIPTION_INDEX) cursor += 4;
+
+
+    let defaultDuration = trex.duration;
+    let defaultSize = trex.size;
+    let defaultFlags = trex.flags;
+
+    if (tfhdFlags & TFHD_DEFAULT_DURATION) {
+      defaultDuration = moof.getUint32(cursor);
+      cursor += 4;
+    }
+    if (tfhdFlags & TFHD_DEFAULT_SIZE) {
+      defaultSize = moof.getUint32(cursor);
+      cursor += 4;
+    }
+    if (tfhdFlags & TFHD_DEFAULT_FLAGS) {
+      defaultFlags = moof.getUint32(cursor);
+    }
+
+    // tfdt - without one, this fragment carries on from the previous one
+    const tfdt = children.find((box) => box.type === 'tfdt');
+    const last = samples[samples.length - 1];
+    let dts = last ? last.dts + last.duration : 0;
+
+    if (tfdt) {
+      dts = moof.getUint8(tfdt.start + 8) === 1
+        ? Number(moof.getBigUint64(tfdt.start + 12))
+        : moof.getUint32(tfdt.start + 12);
+    }
+
+    // truns - each one's data follows the previous one's unless it has a data offset
+    let dataOffset = baseDataOffset;
+
+    for (const trun of children) {
+      if (trun.type !== 'trun') continue;
+
+      const version = moof.getUint8(trun.start + 8);
+      const trunFlags = moof.getUint32(trun.start + 8) & 0xffffff;
+      const sampleCount = moof.getUint32(trun.start + 12);
+      cursor = trun.start + 16;
+
+      if (trunFlags & TRUN_DATA_OFFSET) {
+        dataOffset = baseDataOffset + moof.getInt32(cursor);
+        cursor += 4;
+      }
+
+      let firstSampleFlags: number | null = null;
+      if (trunFlags & TRUN_FIRST_SAMPLE_FLAGS) {
+        firstSampleFlags = moof.getUint32(cursor);
+        cursor += 4;
+      }
+
+      for (let i = 0; i < sampleCount; i++) {
+        let duration = defaultDuration;
+        let size = defaultSize;
+        let flags = i === 0 && firstSampleFlags !== null ? firstSampleFlags : defaultFlags;
+        let ctsOffset = 0;
+
+        if (trunFlags & TRUN_SAMPLE_DURATION) {
+          duration = moof.getUint32(cursor);
+          cursor += 4;
+        }
+        if (trunFlags & TRUN_SAMPLE_SIZE) {
+          size = moof.getUint32(cursor);
+          cursor += 4;
+        }
+        if (trunFlags & TRUN_SAMPLE_FLAGS) {
+          flags = moof.getUint32(cursor);
+          cursor += 4;
+        }
+        if (trunFlags & TRUN_SAMPLE_CTS_OFFSET) {
+          ctsOffset = version === 0 ? moof.getUint32(cursor) : moof.getInt32(cursor);
+          cursor += 4;
+        }
+
+        samples.push({
+          dts,
+          cts: dts + ctsOffset,
+          duration,
+          offset: dataOffset,
+          size,
+          keyframe: (flags & SAMPLE_NON_SYNC) === 0,
+        });
+
+        dts += duration;
+        dataOffset += size;
+      }
+    }
+
+    nextDataOffset = dataOffset;
+  }
+}
+
+/**
+ * The boxes directly inside [start, end) of a buffer
+ */
+export function childBoxes(view: DataView, start: number, end: number): { type: string; start: number; end: number }[] {
+  const boxes: { type: string; start: number; end: number }[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    const size = view.getUint32(offset);
+    if (size < 8 || offset + size > end) break;
+
+    const type = String.fromCharCode(
+      view.getUint8(offset + 4), view.getUint8(offset + 5), view.getUint8(offset + 6), view.getUint8(offset + 7)
+    );
+    boxes.push({ type, start: offset, end: offset + size });
+    offset += size;
+  }
+
+  return boxes;
+}
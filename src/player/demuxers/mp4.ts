@@ -0,0 +1,115 @@
+import { MP4Demuxer } from 'webcodecs-utils';
+import type { TrackData } from '../player';
+import type { ByteSource, Demuxer, SegmentOptions, VideoSample } from './demuxer';
+import { FragmentSample, FragmentedMP4Demuxer, extractSamples, getAudioTracks } from './fragmented-mp4';
+import { getMP4BoxFile } from '../../utils/mp4box';
+
+/**
+ * Load an MP4 file, picking the demuxer for its layout
+ *
+ * MP4Demuxer parses the moov either way - fragmented files then get their
+ * moof/mdat fragments indexed, since their moov has no samples.
+ */
+export async function loadMP4(file: ByteSource): Promise<Demuxer> {
+  const mp4 = new MP4Demuxer(file);
+  await mp4.load();
+
+  if (mp4.getInfo().isFragmented) {
+    const demuxer = new FragmentedMP4Demuxer(file, mp4);
+    await demuxer.load();
+    return demuxer;
+  }
+
+  return new ProgressiveMP4Demuxer(file, mp4);
+}
+
+/**
+ * Regular MP4 files, with the sample table in the moov - a thin wrapper over MP4Demuxer
+ */
+export class ProgressiveMP4Demuxer implements Demuxer {
+  private file: ByteSource;
+  private mp4: MP4Demuxer;
+  private trackData: TrackData;
+  private audioSamples: Map<number, { samples: FragmentSample[]; timescale: number }> = new Map();   // Other audio tracks, by id
+
+  /**
+   * @param file - The file the MP4Demuxer was created with
+   * @param mp4 - An MP4Demuxer that has already loaded the file
+   */
+  constructor(file: ByteSource, mp4: MP4Demuxer) {
+    this.file = file;
+    this.mp4 = mp4;
+
+    const audioTracks = getAudioTracks(mp4);
+    this.trackData = { ...mp4.getTracks(), audio: audioTracks[0], audioTracks };
+  }
+
+  getTracks(): TrackData {
+    return this.trackData;
+  }
+
+  /**
+   * MP4Demuxer only extracts the first audio track - other tracks are read
+   * straight from their sample table
+   */
+  async extractSegment(type: 'audio' | 'video', start: number, end: number, options?: SegmentOptions): Promise<EncodedVideoChunk[] | EncodedAudioChunk[]> {
+    const trackId = options?.trackId;
+    if (type === 'video' || trackId === undefined || trackId === this.trackData.audio?.id) {
+      return this.mp4.extractSegment(type, start, end);
+    }
+
+    if (!this.trackData.audioTracks.some((track) => track.id === trackId)) {
+      throw new Error(`No audio track with id ${trackId}`);
+    }
+
+    const { samples, timescale } = this.getAudioSamples(trackId);
+    return extractSamples(this.file, samples, timescale, type, start, end);
+  }
+
+  /**
+   * An audio track's sample table, in the shape extractSamples() reads
+   */
+  private getAudioSamples(trackId: number): { samples: FragmentSample[]; timescale: number } {
+    let track = this.audioSamples.get(trackId);
+
+    if (!track) {
+      const samples = getMP4BoxFile(this.mp4).getTrackSamplesInfo(trackId);
+
+      track = {
+        samples: samples.map((sample) => ({
+          dts: sample.dts,
+          cts: sample.cts,
+          duration: sample.duration,
+          offset: sample.offset,
+          size: sample.size,
+          keyframe: sample.is_sync,
+        })),
+        timescale: samples[0]?.timescale ?? 1,
+      };
+      this.audioSamples.set(trackId, track);
+    }
+
+    return track;
+  }
+
+  /**
+   * Read from the MP4 sample table
+   *
+   * MP4Demuxer doesn't expose the table itself, so this goes through its MP4Box file.
+   * Timestamps are rounded the same way extractSegment() rounds them, so they match
+   * the EncodedVideoChunk timestamps exactly.
+   */
+  async getVideoSamples(): Promise<VideoSample[]> {
+    const track = this.mp4.getInfo().videoTracks[0];
+    if (!track) return [];
+
+    const samples = getMP4BoxFile(this.mp4).getTrackSamplesInfo(track.id);
+
+    return samples
+      .map((sample) => ({
+        timestamp: Math.round(1e6 * (sample.cts / sample.timescale)),
+        keyframe: sample.is_sync,
+      }))
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+}
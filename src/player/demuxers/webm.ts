@@ -0,0 +1,170 @@
+import { AVMediaType, WebAVPacket, WebAVStream, WebDemuxer } from 'web-demuxer';
+import type { AudioTrackInfo, TrackData } from '../player';
+import type { Demuxer, SegmentOptions, VideoSample } from './demuxer';
+
+const WASM_FILE_PATH = "https://cdn.jsdelivr.net/npm/web-demuxer@latest/dist/wasm-files/web-demuxer.wasm";
+
+/**
+ * WebMDemuxer - WebM / Matroska files (VP8 / VP9 / AV1 video, Opus audio) via web-demuxer
+ *
+ * web-demuxer runs FFmpeg's demuxers in WebAssembly in its own worker, so this is
+ * mostly translation: its stream info into TrackData, and its packets into chunks.
+ */
+export class WebMDemuxer implements Demuxer {
+  private demuxer: WebDemuxer;
+  private trackData: TrackData;
+  private videoSamples: Promise<VideoSample[]> | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private constructor(demuxer: WebDemuxer, trackData: TrackData) {
+    this.demuxer = demuxer;
+    this.trackData = trackData;
+  }
+
+  /**
+   * @param source - The file, or its URL (web-demuxer fetches URLs itself)
+   */
+  static async open(source: Blob | string): Promise<WebMDemuxer> {
+    const demuxer = new WebDemuxer({ wasmFilePath: WASM_FILE_PATH });
+
+    try {
+      await demuxer.load(typeof source === 'string' || source instanceof File ? source : new File([source], 'media.webm'));
+
+      const info = await demuxer.getMediaInfo();
+      const videoStream = info.streams.find((stream) => stream.codec_type === AVMediaType.AVMEDIA_TYPE_VIDEO);
+      const audioTracks = info.streams
+        .filter((stream) => stream.codec_type === AVMediaType.AVMEDIA_TYPE_AUDIO)
+        .map((stream) => toAudioTrackInfo(demuxer, stream))
+        .filter((track): track is AudioTrackInfo => !!track);
+
+      return new WebMDemuxer(demuxer, {
+        duration: info.duration,
+        video: videoStream && toVideoTrackData(demuxer, videoStream),
+        audio: audioTracks[0],
+        audioTracks,
+      });
+    } catch (error) {
+      demuxer.destroy();
+      // web-demuxer rejects with plain strings
+      throw error instanceof Error ? error : new Error(`Failed to parse WebM file: ${error}`);
+    }
+  }
+
+  getTracks(): TrackData {
+    return this.trackData;
+  }
+
+  async extractSegment(type: 'audio' | 'video', start: number, end: number, options?: SegmentOptions): Promise<EncodedVideoChunk[] | EncodedAudioChunk[]> {
+    let streamIndex: number | undefined;
+
+    if (type === 'audio') {
+      streamIndex = options?.trackId ?? this.trackData.audio?.id;
+      if (streamIndex === undefined) return [];
+      if (!this.trackData.audioTracks.some((track) => track.id === streamIndex)) {
+        throw new Error(`No audio track with id ${streamIndex}`);
+      }
+    }
+
+    const packets = await this.readPackets(type, start, end, streamIndex);
+    const Chunk = type === 'audio' ? EncodedAudioChunk : EncodedVideoChunk;
+
+    return packets
+      .filter((packet) => toMicroseconds(packet.timestamp) < end * 1e6)
+      .map((packet) => new Chunk({
+        type: packet.keyframe === 1 ? 'key' : 'delta',
+        timestamp: toMicroseconds(packet.timestamp),
+        duration: toMicroseconds(packet.duration),
+        data: packet.data,
+      })) as EncodedVideoChunk[] | EncodedAudioChunk[];
+  }
+
+  /**
+   * There's no sample table to read, so this reads every video packet once and
+   * keeps their timestamps - only done if frame stepping or previews ask for it
+   */
+  getVideoSamples(): Promise<VideoSample[]> {
+    if (!this.trackData.video) return Promise.resolve([]);
+
+    this.videoSamples ??= this.readPackets('video', 0, 0).then((packets) =>
+      packets
+        .map((packet) => ({ timestamp: toMicroseconds(packet.timestamp), keyframe: packet.keyframe === 1 }))
+        .sort((a, b) => a.timestamp - b.timestamp)
+    );
+
+    return this.videoSamples;
+  }
+
+  /**
+   * Read packets from the keyframe at or before start up to end (0 = the end of the file)
+   *
+   * Reads go one at a time - web-demuxer's worker demuxes a single position at once,
+   * and audio and video segments are requested independently.
+   *
+   * @param streamIndex - Stream to read - web-demuxer's pick for the type when absent
+   */
+  private readPackets(type: 'audio' | 'video', start: number, end: number, streamIndex?: number): Promise<WebAVPacket[]> {
+    const result = this.queue.then(async () => {
+      const packets: WebAVPacket[] = [];
+      const mediaType = type === 'audio' ? AVMediaType.AVMEDIA_TYPE_AUDIO : AVMediaType.AVMEDIA_TYPE_VIDEO;
+      const reader = (streamIndex === undefined
+        ? this.demuxer.readMediaPacket(type, start, end)
+        : this.demuxer.readAVPacket(start, end, mediaType, streamIndex)
+      ).getReader();
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        packets.push(value);
+      }
+
+      return packets;
+    });
+
+    this.queue = result.catch(() => {});
+    return result;
+  }
+}
+
+/**
+ * Packet times are in seconds - round to whole microseconds like the MP4 demuxers,
+ * so chunk timestamps and getVideoSamples() agree exactly
+ */
+function toMicroseconds(seconds: number): number {
+  return Math.round(seconds * 1e6);
+}
+
+function toVideoTrackData(demuxer: WebDemuxer, stream: WebAVStream): TrackData['video'] {
+  const config = demuxer.genDecoderConfig('video', stream);
+  const [num, den] = (stream.avg_frame_rate || stream.r_frame_rate).split('/').map(Number);
+
+  return {
+    codec: config.codec,
+    codedWidth: config.codedWidth!,
+    codedHeight: config.codedHeight!,
+    description: config.description as Uint8Array,
+    frameRate: den ? num / den : num,
+  };
+}
+
+/**
+ * Audio is remuxed to MP4 for decodeAudioData, which only works for Opus here -
+ * other tracks (e.g. Vorbis) are left out, and without any the file plays as video-only
+ */
+function toAudioTrackInfo(demuxer: WebDemuxer, stream: WebAVStream): AudioTrackInfo | undefined {
+  const config = demuxer.genDecoderConfig('audio', stream);
+
+  if (config.codec !== 'opus') {
+    console.warn(`Unsupported WebM audio codec ${config.codec || stream.codec_name} - skipping audio track ${stream.index}`);
+    return undefined;
+  }
+
+  return {
+    id: stream.index,
+    codec: config.codec,
+    sampleRate: config.sampleRate,
+    numberOfChannels: config.numberOfChannels,
+    description: config.description as Uint8Array,
+    language: stream.tags?.language,
+    label: stream.tags?.title,
+  };
+}
@@ -1,18 +1,27 @@
-import { MP4Demuxer } from 'webcodecs-utils';
+import { PreviewFrames } from './preview-frames';
+import { HttpFile, createPortFetch } from './http-file';
+import { Demuxer, detectContainer } from './demuxers/demuxer';
+import { loadMP4 } from './demuxers/mp4';
+import { WebMDemuxer } from './demuxers/webm';
+import { AdaptiveStreamDemuxer } from './demuxers/adaptive-stream';
+import { getManifestType } from './streaming/manifest';
 
 /**
- * File Worker - Pure MP4 Demuxer
+ * File Worker - Demuxer
  *
  * Responsibilities:
- * - Load and parse MP4 files
+ * - Detect the container and load the matching demuxer (MP4, fragmented MP4, WebM)
+ * - Read local Files, or URLs with HTTP Range requests
+ * - Fetch HLS / DASH segments, choosing renditions by throughput and buffer level
  * - Extract track metadata
  * - Extract video/audio chunks for specific time ranges
  * - Send chunks to video worker via MessagePort
  * - Send chunks to audio player via direct worker messages
  */
 
-let demuxer: MP4Demuxer | null = null;
+let demuxer: Demuxer | null = null;
 let videoWorkerPort: MessagePort | null = null;
+let previewFrames: PreviewFrames | null = null;
 
 // Worker message handler
 self.onmessage = async function(event: MessageEvent) {
@@ -21,10 +30,18 @@ self.onmessage = async function(event: MessageEvent) {
   try {
     switch (cmd) {
       case 'init':
-        // Initialize demuxer with file
-        const { file, videoPort } = data;
-        demuxer = new MP4Demuxer(file);
-        await demuxer.load();
+        // Initialize demuxer with file - URLs are read lazily, through the
+        // main thread's custom fetch if one was given
+        const { file, videoPort, fetchPort } = data;
+        const fetchFn = fetchPort ? createPortFetch(fetchPort) : undefined;
+        const manifestType = typeof file === 'string' ? getManifestType(file) : null;
+
+        if (manifestType) {
+          demuxer = await AdaptiveStreamDemuxer.open(file, manifestType, fetchFn ?? ((url, init) => fetch(url, init)));
+        } else {
+          const source = typeof file === 'string' ? await HttpFile.open(file, { fetch: fetchFn }) : file;
+          demuxer = await openDemuxer(source, !!fetchPort);
+        }
 
         // Store the MessagePort for video worker communication
         if (videoPort) {
@@ -52,13 +69,48 @@ self.onmessage = async function(event: MessageEvent) {
         });
         break;
 
+      case 'get-frame-timestamps':
+        if (!demuxer) {
+          throw new Error('Demuxer not initialized');
+        }
+
+        self.postMessage({
+          request_id,
+          res: (await demuxer.getVideoSamples()).map((sample) => sample.timestamp)
+        });
+        break;
+
+      case 'get-stream-info':
+        // Throughput and current rendition - null for files
+        self.postMessage({
+          request_id,
+          res: demuxer instanceof AdaptiveStreamDemuxer ? demuxer.getStreamInfo() : null
+        });
+        break;
+
+      case 'get-preview-frame':
+        if (!demuxer) {
+          throw new Error('Demuxer not initialized');
+        }
+
+        // Created on first hover - reads the sample table and sets up its own decoder
+        previewFrames ??= new PreviewFrames(demuxer);
+
+        const preview = await previewFrames.get(data.time, data.width);
+
+        self.postMessage({
+          request_id,
+          res: preview
+        }, { transfer: [preview] });
+        break;
+
       case 'get-audio-segment':
         if (!demuxer) {
           throw new Error('Demuxer not initialized');
         }
 
-        const { start, end } = data;
-        const audioChunks = await demuxer.extractSegment('audio', start, end);
+        const { start, end, trackId } = data;
+        const audioChunks = await demuxer.extractSegment('audio', start, end, { trackId });
 
         // Send directly back to audio player (main thread)
         self.postMessage({
@@ -76,14 +128,16 @@ self.onmessage = async function(event: MessageEvent) {
         const videoSegment = await demuxer.extractSegment(
           'video',
           data.start,
-          data.end
-        );
+          data.end,
+          { playhead: data.playhead }
+        ) as EncodedVideoChunk[];
 
         // Send chunks to video worker via MessagePort
         videoWorkerPort.postMessage({
           cmd: 'chunks',
           request_id,
-          res: videoSegment
+          res: videoSegment,
+          configs: demuxer.getVideoConfigChanges?.(videoSegment) ?? []
         });
         break;
 
@@ -91,6 +145,7 @@ self.onmessage = async function(event: MessageEvent) {
         throw new Error(`Unknown command: ${cmd}`);
     }
   } catch (error) {
+    console.error(`File worker ${cmd} error:`, error);
     self.postMessage({
       request_id,
       error: error instanceof Error ? error.message : String(error)
@@ -98,6 +153,26 @@ self.onmessage = async function(event: MessageEvent) {
   }
 };
 
+/**
+ * Pick the demuxer for the file's container
+ * @param customFetch - URL reads must go through the main thread's fetch
+ */
+async function openDemuxer(source: Blob | HttpFile, customFetch: boolean): Promise<Demuxer> {
+  if (await detectContainer(source) === 'mp4') {
+    return loadMP4(source);
+  }
+
+  if (source instanceof HttpFile) {
+    // web-demuxer reads URLs itself, so it can't use HttpFile or a custom fetch
+    if (customFetch) {
+      throw new Error('A custom fetch is not supported for WebM URLs');
+    }
+    return WebMDemuxer.open(source.url);
+  }
+
+  return WebMDemuxer.open(source);
+}
+
 // Handle messages from video worker (via MessagePort)
 function handleVideoWorkerMessage(event: MessageEvent) {
   const { cmd, data, request_id } = event.data;
@@ -107,12 +182,13 @@ function handleVideoWorkerMessage(event: MessageEvent) {
   switch (cmd) {
     case 'request-segment':
       // Video worker requests a segment
-      demuxer.extractSegment('video', data.start, data.end)
+      demuxer.extractSegment('video', data.start, data.end, { playhead: data.playhead })
         .then(chunks => {
           videoWorkerPort!.postMessage({
             cmd: 'chunks',
             request_id,
-            res: chunks
+            res: chunks,
+            configs: demuxer!.getVideoConfigChanges?.(chunks as EncodedVideoChunk[]) ?? []
           });
         })
         .catch(error => {
@@ -0,0 +1,253 @@
+/**
+ * HttpFile - a remote file read lazily with HTTP Range requests
+ *
+ * Implements the part of the Blob interface MP4Demuxer uses (size, slice, stream),
+ * so the file worker can demux a URL exactly like a local File:
+ * - load() streams the file from the start until the moov box is parsed
+ * - extractSegment() streams slice(offset) from the first sample it needs
+ *
+ * Streams are pulled one chunkSize range request at a time, so only the bytes the
+ * demuxer actually reads are downloaded.
+ */
+
+/**
+ * The subset of fetch() HttpFile needs - window.fetch works, or pass your own
+ * (e.g. to add auth headers or to point tests at a local static server)
+ */
+export type RangeFetch = (url: string, init: { headers: Record<string, string> }) => Promise<Response>;
+
+export interface HttpFileOptions {
+  fetch?: RangeFetch;
+  /** Bytes per range request (default 1MB) */
+  chunkSize?: number;
+}
+
+interface RangeSource {
+  url: string;
+  size: number;
+  fetch: RangeFetch;
+  chunkSize: number;
+  /** mdat payloads stored before the moov - see HttpFile.stream() */
+  mediaData: { start: number; end: number }[];
+}
+
+// Top-level boxes to look through for the moov before giving up on skipping mdat
+const MAX_LAYOUT_BOXES = 64;
+
+export class HttpFile {
+  readonly type = '';
+  private source: RangeSource;
+  private start: number;
+  private end: number;
+  private skipMediaData: boolean;
+
+  private constructor(source: RangeSource, start: number, end: number, skipMediaData: boolean) {
+    this.source = source;
+    this.start = start;
+    this.end = end;
+    this.skipMediaData = skipMediaData;
+  }
+
+  /**
+   * Get the file size and find where the moov is with a few small range requests
+   * @throws Error if the server doesn't support range requests
+   */
+  static async open(url: string, options?: HttpFileOptions): Promise<HttpFile> {
+    const source: RangeSource = {
+      url,
+      size: 0,
+      fetch: options?.fetch ?? ((input, init) => fetch(input, init)),
+      chunkSize: options?.chunkSize ?? 1024 * 1024,
+      mediaData: [],
+    };
+
+    const response = await source.fetch(url, { headers: { Range: 'bytes=0-0' } });
+    const total = response.headers.get('Content-Range')?.split('/')[1];
+    if (response.status !== 206 || !total || total === '*') {
+      throw new Error(`Cannot play ${url}: the server doesn't support HTTP range requests`);
+    }
+
+    source.size = Number(total);
+    source.mediaData = await findMediaDataBeforeMoov(source);
+
+    return new HttpFile(source, 0, source.size, true);
+  }
+
+  get url(): string {
+    return this.source.url;
+  }
+
+  get size(): number {
+    return this.end - this.start;
+  }
+
+  /**
+   * @param start - Offset relative to this file / slice
+   * @param end - Exclusive end offset (default: the end)
+   */
+  slice(start: number = 0, end: number = this.size): HttpFile {
+    const from = this.start + Math.max(0, Math.min(start, this.size));
+    const to = this.start + Math.max(0, Math.min(end, this.size));
+
+    // Slices are how extractSegment() reads samples, so they always download real data
+    return new HttpFile(this.source, from, Math.max(from, to), false);
+  }
+
+  /**
+   * Stream the bytes, one range request per chunk
+   *
+   * When streaming the whole file (as MP4Demuxer.load() does), mdat payloads stored
+   * before the moov are emitted as zeros instead of downloaded. MP4Box only needs their
+   * box headers to find the moov, and it discards mdat data while loading anyway -
+   * samples are always read later through slice().
+   */
+  stream(): ReadableStream<Uint8Array> {
+    let position = this.start;
+
+    return new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        if (position >= this.end) {
+          controller.close();
+          return;
+        }
+
+        const end = Math.min(position + this.source.chunkSize, this.end);
+        const skipped = this.skipMediaData && this.source.mediaData.find(
+          (range) => position >= range.start && position < range.end
+        );
+
+        if (skipped) {
+          const skipEnd = Math.min(skipped.end, end);
+          controller.enqueue(new Uint8Array(skipEnd - position));
+          position = skipEnd;
+          return;
+        }
+
+        // Stop at the next skipped payload so it gets zero-filled on the next pull
+        const nextSkip = this.skipMediaData
+          ? this.source.mediaData.find((range) => range.start > position && range.start < end)
+          : undefined;
+        const readEnd = nextSkip ? nextSkip.start : end;
+
+        controller.enqueue(await readRange(this.source, position, readEnd));
+        position = readEnd;
+      },
+    });
+  }
+
+  async arrayBuffer(): Promise<ArrayBuffer> {
+    const bytes = await readRange(this.source, this.start, this.end);
+    return bytes.buffer as ArrayBuffer;
+  }
+}
+
+/**
+ * Fetch [start, end) of the file
+ */
+async function readRange(source: RangeSource, start: number, end: number): Promise<Uint8Array> {
+  if (end <= start) return new Uint8Array(0);
+
+  const response = await source.fetch(source.url, { headers: { Range: `bytes=${start}-${end - 1}` } });
+
+  // A 200 would be the whole file - never silently download that
+  if (response.status !== 206) {
+    throw new Error(`Range request for ${source.url} failed with status ${response.status}`);
+  }
+
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+/**
+ * Walk the top-level box headers until the moov, noting the mdat payloads on the way
+ * Files with the moov first (fast start) return straight away with nothing to skip.
+ */
+async function findMediaDataBeforeMoov(source: RangeSource): Promise<{ start: number; end: number }[]> {
+  const mediaData: { start: number; end: number }[] = [];
+  let offset = 0;
+
+  for (let i = 0; i < MAX_LAYOUT_BOXES && offset + 8 <= source.size; i++) {
+    const header = await readRange(source, offset, Math.min(offset + 16, source.size));
+    const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+
+    const type = String.fromCharCode(...header.subarray(4, 8));
+    let size = view.getUint32(0);
+    let headerSize = 8;
+
+    if (size === 1 && header.byteLength >= 16) {
+      size = Number(view.getBigUint64(8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = source.size - offset;   // Box runs to the end of the file
+    }
+
+    if (type === 'moov') return mediaData;
+    // Not a box (or not an MP4 at all, e.g. WebM) - stop rather than guess
+    if (size < headerSize || !/^[\x20-\x7e]{4}$/.test(type)) break;
+
+    if (type === 'mdat') {
+      mediaData.push({ start: offset + headerSize, end: offset + size });
+    }
+
+    offset += size;
+  }
+
+  // No moov found - read everything rather than risk skipping data the demuxer needs
+  return [];
+}
+
+/**
+ * Main thread side of a custom fetch: answers range requests sent by createPortFetch()
+ *
+ * Functions can't be sent to a worker, so a custom fetch stays on the main thread and
+ * the file worker reaches it through a MessagePort.
+ */
+export function serveFetchRequests(port: MessagePort, fetchFn: RangeFetch): void {
+  port.onmessage = async (event: MessageEvent) => {
+    const { id, url, headers } = event.data;
+
+    try {
+      const response = await fetchFn(url, { headers });
+      const body = await response.arrayBuffer();
+
+      port.postMessage({
+        id,
+        status: response.status,
+        contentRange: response.headers.get('Content-Range'),
+        body
+      }, [body]);
+    } catch (error) {
+      port.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+    }
+  };
+}
+
+/**
+ * Worker side of a custom fetch - a RangeFetch that forwards to serveFetchRequests()
+ */
+export function createPortFetch(port: MessagePort): RangeFetch {
+  let nextId = 0;
+  const pending = new Map<number, { resolve: (response: Response) => void; reject: (error: Error) => void }>();
+
+  port.onmessage = (event: MessageEvent) => {
+    const { id, status, contentRange, body, error } = event.data;
+    const request = pending.get(id);
+    if (!request) return;
+
+    pending.delete(id);
+
+    if (error) {
+      request.reject(new Error(error));
+    } else {
+      request.resolve(new Response(body, {
+        status,
+        headers: contentRange ? { 'Content-Range': contentRange } : {}
+      }));
+    }
+  };
+
+  return (url, init) => new Promise((resolve, reject) => {
+    const id = ++nextId;
+    pending.set(id, { resolve, reject });
+    port.postMessage({ id, url, headers: init.headers });
+  });
+}
@@ -1 +1,6 @@
 export { default as WebCodecsPlayer } from './player';
+export type { TextTrackInfo, TextTrackOptions } from './text-track';
+export type { AudioTrackInfo, CaptureFrameOptions, PlayerEventMap, RenditionInfo } from './player';
+export type { CaptureFormat } from './renderers/video/frame-capture';
+export type { LoopRange } from './clock';
+export type { RangeFetch } from './http-file';
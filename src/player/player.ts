@@ -3,42 +3,97 @@ import EventEmitter from "../utils/EventEmitter";
 import { WorkerController } from '../utils/WorkerController';
 import { AudioTrackData, WebAudioPlayer } from "./renderers/audio/audio";
 import { VideoWorker } from "./renderers/video/video";
-import { Clock } from "./clock";
+import { Clock, LoopRange, TimeSource } from "./clock";
+import { WallClock } from "./wall-clock";
+import { TextTrack, TextTrackInfo, TextTrackOptions } from "./text-track";
+import { SubtitleCue } from "../utils/subtitles";
+import type { CaptureFormat } from "./renderers/video/frame-capture";
+import { RangeFetch, serveFetchRequests } from "./http-file";
 import FileWorker from './file.ts?worker&inline';
 // Note to Claude: Do not edit this file or make suggestions unless I specifically ask you to.
 
+// Seconds of video per renderer for HLS / DASH streams - a few segments
+const STREAM_CHUNK_DURATION = 10;
+
 export interface WebCodecsPlayerParams {
-  src: File;
+  src: File | Blob | string | URL; // A URL is streamed with HTTP Range requests instead of downloaded up front - .m3u8 / .mpd URLs play as HLS / DASH
   canvas: HTMLCanvasElement;
+  fetch?: RangeFetch; // Custom fetch for URL sources (e.g. auth headers), called on the main thread
+  loop?: boolean; // Start again from the beginning instead of ending
 }
 
 
+export interface CaptureFrameOptions {
+  /** 'imagebitmap' (default) or the image MIME type to encode to */
+  type?: CaptureFormat;
+  /** 0-1, for image/jpeg and image/webp */
+  quality?: number;
+}
+
 export interface TrackData {
   duration: number,
-  audio?: AudioTrackData
-  video?: VideoTrackData
+  audio?: AudioTrackInfo // The track played by default
+  audioTracks: AudioTrackInfo[] // Every playable audio track, e.g. dubs or commentary
+  video?: VideoTrackData // For streams, the config of the starting rendition
+  renditions?: RenditionInfo[] // HLS / DASH video renditions, lowest bandwidth first
+}
+
+export interface AudioTrackInfo extends AudioTrackData {
+  id: number, // Pass to setAudioTrack() - the MP4 track ID, WebM stream index, or stream track index
+  language?: string, // As the file / manifest gives it, e.g. 'eng' or 'en'
+  label?: string // e.g. 'English', 'Director's commentary'
+}
+
+export interface RenditionInfo {
+  id: string,
+  bandwidth: number, // Bits per second, as advertised by the manifest
+  codec?: string,
+  width?: number,
+  height?: number
+}
+
+/**
+ * What each player event passes to its listeners
+ */
+export interface PlayerEventMap {
+  play: void,
+  pause: void,
+  seek: number, // Time seeked to, in seconds
+  ratechange: number,
+  tick: number, // Current time, ~30 times a second during playback
+  loop: number, // Time playback wrapped back to
+  ended: void,
+  cuechange: SubtitleCue[], // Empty when no subtitle is showing
+  volumechange: { volume: number, muted: boolean }
 }
 
 
 
 
 
-export class WebCodecsPlayer  {
+export class WebCodecsPlayer extends EventEmitter {
   private canvas: HTMLCanvasElement | null = null;
   private params: WebCodecsPlayerParams;
-  private file: File;
+  private file: File | Blob | string;
   duration: number = 0;
   private renderer: VideoWorker | null = null;
   private audioPlayer: WebAudioPlayer | null = null;
   private worker: WorkerController | null = null;
   private clock: Clock | null = null;
   private trackData: TrackData | null = null;
+  private textTracks: Map<string, TextTrack> = new Map();
+  private activeTextTrack: TextTrack | null = null;
+  private drawTextTrack: boolean = true;
+  private frameTimestamps: number[] | null = null;
+  private volume: number = 1;
+  private muted: boolean = false;
 
   constructor(params: WebCodecsPlayerParams) {
+    super();
 
     this.params = params;
     this.worker = new WorkerController(FileWorker);
-    this.file = params.src;
+    this.file = params.src instanceof URL ? params.src.href : params.src;
     this.canvas = params.canvas;
     this.duration = 0;
   }
@@ -69,17 +124,339 @@ export class WebCodecsPlayer  {
     await this.clock.seek(time);
   }
 
+  /**
+   * Set the volume (0 = silent, 1 = full volume). Unmuting restores this level
+   */
+  setVolume(volume: number) {
+    if (!(volume >= 0 && volume <= 1)) {
+      throw new Error(`Volume must be between 0 and 1, got ${volume}`);
+    }
+
+    this.volume = volume;
+    this.applyVolume();
+  }
+
+  getVolume(): number {
+    return this.volume;
+  }
+
+  mute() {
+    if (this.muted) return;
+    this.muted = true;
+    this.applyVolume();
+  }
+
+  unmute() {
+    if (!this.muted) return;
+    this.muted = false;
+    this.applyVolume();
+  }
+
+  isMuted(): boolean {
+    return this.muted;
+  }
+
+  private applyVolume() {
+    // Files without audio still keep the setting (and emit the event) for UI state
+    this.audioPlayer?.setVolume(this.muted ? 0 : this.volume);
+    this.emit('volumechange', { volume: this.volume, muted: this.muted });
+  }
+
+  /**
+   * Audio tracks in the file, e.g. dubs or a commentary - pass an id to setAudioTrack()
+   */
+  getAudioTracks(): AudioTrackInfo[] {
+    return this.trackData?.audioTracks ?? [];
+  }
+
+  /**
+   * Id of the audio track playing, or null if there is no audio
+   */
+  getActiveAudioTrack(): number | null {
+    return this.audioPlayer?.trackId ?? null;
+  }
+
+  /**
+   * Switch to another audio track, keeping the playback position
+   *
+   * Decoded audio of the old track is dropped and reloaded from the new one, so
+   * there is a short gap while the first segment decodes.
+   * @param id - Track id from getAudioTracks()
+   */
+  async setAudioTrack(id: number) {
+    if (!this.audioPlayer || !this.trackData) {
+      throw new Error('Player not initialized or file has no audio track');
+    }
+
+    const track = this.trackData.audioTracks.find((audioTrack) => audioTrack.id === id);
+    if (!track) {
+      throw new Error(`Unknown audio track: ${id}`);
+    }
+
+    if (track.id === this.audioPlayer.trackId) return;
+    await this.audioPlayer.setAudioTrack(track.id, track);
+  }
+
+  /**
+   * Loop the whole file instead of ending
+   */
+  async setLoop(loop: boolean) {
+    if (!this.clock) {
+      throw new Error('Player not initialized. Call initialize() first.');
+    }
+
+    await this.clock.setLoop(loop);
+  }
+
+  isLooping(): boolean {
+    return this.clock?.isLooping() ?? !!this.params.loop;
+  }
+
+  /**
+   * Repeat playback between start and end (A-B repeat), jumping to start if needed
+   * @param start - Seconds
+   * @param end - Seconds
+   */
+  async setLoopRange(start: number, end: number) {
+    if (!this.clock) {
+      throw new Error('Player not initialized. Call initialize() first.');
+    }
+
+    await this.clock.setLoopRange(start, end);
+  }
+
+  /**
+   * Stop A-B repeat - playback carries on (or loops the whole file if loop is set)
+   */
+  async clearLoopRange() {
+    if (!this.clock) {
+      throw new Error('Player not initialized. Call initialize() first.');
+    }
+
+    await this.clock.clearLoopRange();
+  }
+
+  getLoopRange(): LoopRange | null {
+    return this.clock?.getLoopRange() ?? null;
+  }
+
+  /**
+   * Pause and show the frame at this index (0-based, in display order)
+   */
+  async seekToFrame(index: number) {
+    if (!this.clock) {
+      throw new Error('Player not initialized. Call initialize() first.');
+    }
+
+    const timestamps = await this.getFrameTimestamps();
+    if (!Number.isInteger(index) || index < 0 || index >= timestamps.length) {
+      throw new Error(`Frame index must be an integer between 0 and ${timestamps.length - 1}, got ${index}`);
+    }
+
+    this.clock.pause();
+    await this.clock.seekToFrame(timestamps[index]);
+  }
+
+  /**
+   * Pause and show the next frame
+   */
+  async stepForward() {
+    const index = await this.getCurrentFrame();
+    const count = await this.getFrameCount();
+    await this.seekToFrame(Math.min(index + 1, count - 1));
+  }
+
+  /**
+   * Pause and show the previous frame - decoded from the keyframe before it
+   */
+  async stepBackward() {
+    const index = await this.getCurrentFrame();
+    await this.seekToFrame(Math.max(index - 1, 0));
+  }
+
+  /**
+   * Index of the frame showing at the current time
+   */
+  async getCurrentFrame(): Promise<number> {
+    const timestamps = await this.getFrameTimestamps();
+    const time = Math.round(this.getCurrentTime() * 1e6);
+
+    // Last frame starting at or before the current time
+    let low = 0;
+    let high = timestamps.length - 1;
+    let index = 0;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (timestamps[mid] <= time) {
+        index = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return index;
+  }
+
+  async getFrameCount(): Promise<number> {
+    return (await this.getFrameTimestamps()).length;
+  }
+
+  /**
+   * Frame timestamps (µs) from the file's sample table - fetched once, on first use
+   */
+  private async getFrameTimestamps(): Promise<number[]> {
+    if (!this.frameTimestamps) {
+      if (!this.worker || !this.trackData?.video) {
+        throw new Error('No video track to step through');
+      }
+      const timestamps = await this.worker.sendMessage<number[] | undefined>('get-frame-timestamps', {});
+      if (!timestamps) {
+        throw new Error('Frame timestamps are not available for this source');
+      }
+      this.frameTimestamps = timestamps;
+    }
+
+    return this.frameTimestamps;
+  }
+
+  /**
+   * Set the playback rate (e.g. 0.5 for half speed, 2 for double speed)
+   * @param rate - Playback rate between Clock.MIN_PLAYBACK_RATE and Clock.MAX_PLAYBACK_RATE
+   * @param options.preservePitch - Keep the audio pitch unchanged (default true)
+   */
+  async setPlaybackRate(rate: number, options?: { preservePitch?: boolean }) {
+    if (!this.clock) {
+      throw new Error('Player not initialized. Call initialize() first.');
+    }
+
+    await this.clock.setPlaybackRate(rate, options?.preservePitch);
+  }
+
+  getPlaybackRate(): number {
+    return this.clock?.getPlaybackRate() ?? 1;
+  }
+
   getCurrentTime(): number {
     return this.clock?.getCurrentTime() || 0;
   }
 
+  /**
+   * Grab the frame showing at a time, without disturbing playback
+   *
+   * The video worker decodes it with its own VideoDecoder, so the playback
+   * buffers and decode position are untouched.
+   *
+   * @param time - Seconds (defaults to the current time)
+   */
+  captureFrame(time?: number, options?: { type?: 'imagebitmap' }): Promise<ImageBitmap>;
+  captureFrame(time: number | undefined, options: CaptureFrameOptions & { type: Exclude<CaptureFormat, 'imagebitmap'> }): Promise<Blob>;
+  async captureFrame(time?: number, options?: CaptureFrameOptions): Promise<ImageBitmap | Blob> {
+    if (!this.renderer) {
+      throw new Error('Player not initialized. Call initialize() first.');
+    }
+
+    const captureTime = time ?? this.getCurrentTime();
+    const image = await this.renderer.captureFrame(captureTime, options?.type ?? 'imagebitmap', options?.quality);
+
+    if (!image) {
+      throw new Error(`Failed to capture the frame at ${captureTime}s`);
+    }
+
+    return image;
+  }
+
+  /**
+   * Low resolution preview of the keyframe at or before a time, e.g. for seek bar hovers
+   *
+   * Decoded in the file worker with its own decoder and cached per keyframe, so it
+   * never touches the playback renderers.
+   *
+   * @param time - Seconds
+   * @param options.width - Preview width in pixels (default 160) - height follows the aspect ratio
+   */
+  async getPreviewFrame(time: number, options?: { width?: number }): Promise<ImageBitmap> {
+    if (!this.worker || !this.trackData?.video) {
+      throw new Error('Player not initialized or file has no video track');
+    }
+
+    const clampedTime = Math.max(0, Math.min(time, this.duration));
+    const preview = await this.worker.sendMessage<ImageBitmap | undefined>('get-preview-frame', {
+      time: clampedTime,
+      width: options?.width ?? 160
+    });
+
+    if (!preview) {
+      throw new Error(`Failed to get a preview frame at ${clampedTime}s`);
+    }
+
+    return preview;
+  }
+
+  /**
+   * Load an SRT or WebVTT subtitle track. It isn't shown until passed to setActiveTextTrack()
+   * @param source - Subtitle file text, or a File / Blob containing it
+   * @returns The track id
+   */
+  async loadTextTrack(source: string | Blob, options?: TextTrackOptions): Promise<string> {
+    const track = await TextTrack.load(source, options);
+    this.textTracks.set(track.id, track);
+    return track.id;
+  }
+
+  /**
+   * Choose the text track whose cues are emitted as 'cuechange' events
+   * @param id - Track id from loadTextTrack(), or null to turn subtitles off
+   * @param options.draw - Draw the cues over the video (default true). Pass false to only
+   * receive 'cuechange' events, e.g. to render subtitles in your own DOM overlay
+   */
+  async setActiveTextTrack(id: string | null, options?: { draw?: boolean }) {
+    const track = id === null ? null : this.textTracks.get(id);
+    if (track === undefined) {
+      throw new Error(`Unknown text track: ${id}`);
+    }
+
+    this.activeTextTrack = track;
+    this.drawTextTrack = options?.draw ?? true;
+
+    // Applied in initialize() if the clock doesn't exist yet
+    if (this.clock) {
+      this.clock.setTextTrack(track?.cues ?? null);
+      await this.drawCues(this.clock.getActiveCues());
+    }
+  }
+
+  getTextTracks(): TextTrackInfo[] {
+    return [...this.textTracks.values()].map((track) => track.getInfo());
+  }
+
+  getActiveTextTrack(): string | null {
+    return this.activeTextTrack?.id ?? null;
+  }
+
+  /**
+   * Cues currently showing on the active text track
+   */
+  getActiveCues(): SubtitleCue[] {
+    return this.clock?.getActiveCues() ?? [];
+  }
+
+  private async drawCues(cues: SubtitleCue[]) {
+    if (!this.renderer) return;
+
+    const text = this.drawTextTrack ? cues.map((cue) => cue.text) : null;
+    await this.renderer.setCaptions(text);
+  }
+
   async getDebugInfo() {
     const videoDebugInfo = this.renderer ? await this.renderer.getDebugInfo() : null;
+    const streamInfo = this.trackData?.renditions && this.worker ? await this.worker.sendMessage('get-stream-info', {}) : null;
 
     return {
       trackData: {
         duration: this.duration,
         audio: this.audioPlayer ? {
+          trackId: this.audioPlayer.trackId,
           codec: this.audioPlayer.audioConfig?.codec,
           sampleRate: this.audioPlayer.audioConfig?.sampleRate,
           numberOfChannels: this.audioPlayer.audioConfig?.numberOfChannels,
@@ -96,10 +473,12 @@ export class WebCodecsPlayer  {
           height: this.trackData?.video?.codedHeight,
           frameRate: this.trackData?.video?.frameRate,
           ...videoDebugInfo
-        } : null
+        } : null,
+        stream: streamInfo
       },
       clock: {
         isPlaying: this.clock?.playing(),
+        playbackRate: this.getPlaybackRate(),
         currentTime: this.getCurrentTime()
       }
     };
@@ -114,7 +493,7 @@ export class WebCodecsPlayer  {
 
     // Clean up audio resources
     if (this.audioPlayer) {
-      this.audioPlayer.pause();
+      this.audioPlayer.terminate();
       // Any additional cleanup for audio...
     }
 
@@ -138,11 +517,24 @@ export class WebCodecsPlayer  {
     // Create MessageChannel for file worker <-> video worker communication
     const videoChannel = new MessageChannel();
 
+    // A custom fetch can't be sent to the worker, so range requests come back here
+    let fetchPort: MessagePort | undefined;
+    if (typeof this.file === 'string' && this.params.fetch) {
+      const fetchChannel = new MessageChannel();
+      serveFetchRequests(fetchChannel.port1, this.params.fetch);
+      fetchPort = fetchChannel.port2;
+    }
+
     // Initialize file worker with video port
-    await this.worker.sendMessage('init', {
+    const loaded = await this.worker.sendMessage('init', {
       file: this.file,
-      videoPort: videoChannel.port1
-    }, [videoChannel.port1]);
+      videoPort: videoChannel.port1,
+      fetchPort
+    }, fetchPort ? [videoChannel.port1, fetchPort] : [videoChannel.port1]);
+
+    if (!loaded) {
+      throw new Error(`Failed to load ${typeof this.file === 'string' ? this.file : 'file'} - see the console for details`);
+    }
 
     // Get track metadata from file worker
     const trackData = <TrackData> await this.worker.sendMessage('get-tracks', {});
@@ -160,27 +552,69 @@ export class WebCodecsPlayer  {
 
     await this.renderer.initialize();
 
-    // Send track metadata to video worker
-    await this.renderer.setTrackData(trackData.video!, trackData.duration);
+    // Send track metadata to video worker - streams switch renditions, so the canvas is
+    // sized for the largest one and chunks are kept short so the first frame comes quickly
+    const renditions = trackData.renditions ?? [];
+    await this.renderer.setTrackData(trackData.video!, trackData.duration, renditions.length > 0 ? {
+      chunkDuration: STREAM_CHUNK_DURATION,
+      width: Math.max(trackData.video?.codedWidth ?? 0, ...renditions.map((rendition) => rendition.width ?? 0)),
+      height: Math.max(trackData.video?.codedHeight ?? 0, ...renditions.map((rendition) => rendition.height ?? 0))
+    } : undefined);
 
     // Initialize audio player with file worker
-    this.audioPlayer = new WebAudioPlayer({
-      worker: this.worker,
-      audioConfig: trackData.audio!,
-      duration: trackData.duration,
-      file: this.file
-    });
+    // Files without an audio track (e.g. screen recordings) use a wall-clock timeline instead
+    let timeSource: TimeSource;
+
+    if (trackData.audio) {
+      this.audioPlayer = new WebAudioPlayer({
+        worker: this.worker,
+        audioConfig: trackData.audio,
+        trackId: trackData.audio.id,
+        duration: trackData.duration,
+        file: this.file
+      });
+      this.audioPlayer.setVolume(this.muted ? 0 : this.volume);
+      timeSource = this.audioPlayer;
+    } else {
+      timeSource = new WallClock();
+    }
 
     // Create clock to manage playback timing
     // The clock coordinates audio and video using the audio timeline as source of truth
-    this.clock = new Clock(this.audioPlayer, this.renderer, this.duration);
+    this.clock = new Clock(timeSource, this.renderer, this.duration);
+
+    // Keep the video worker's subtitle overlay in sync with the active cues
+    this.clock.on('cuechange', (cues: SubtitleCue[]) => {
+      this.drawCues(cues).catch(console.error);
+    });
+    this.clock.setTextTrack(this.activeTextTrack?.cues ?? null);
+
+    if (this.params.loop) {
+      await this.clock.setLoop(true);
+    }
 
     // Forward clock events to external listeners
 
   }
 
-  on(event, listener){
-    this.clock.on(event, listener)
+  /**
+   * Playback events come from the clock - volume events come from the player itself
+   */
+  on<K extends keyof PlayerEventMap>(event: K, listener: (args: PlayerEventMap[K]) => void): string {
+    if (event === 'volumechange') {
+      return super.on(event, listener);
+    }
+
+    if (!this.clock) {
+      throw new Error('Player not initialized. Call initialize() first.');
+    }
+
+    return this.clock.on(event, listener);
+  }
+
+  off(event: keyof PlayerEventMap, listenerId: string): void {
+    super.off(event, listenerId);
+    this.clock?.off(event, listenerId);
   }
 
   // Add more methods as needed
@@ -0,0 +1,128 @@
+import type { Demuxer } from './demuxers/demuxer';
+
+// Keep roughly the last few minutes of hovering around - tiny bitmaps, but long files have thousands of keyframes
+const MAX_CACHED_FRAMES = 300;
+
+/**
+ * Low resolution, keyframe-only previews for seek bar hovers
+ *
+ * Runs in the file worker next to the demuxer, with its own VideoDecoder, so the
+ * video worker's renderers never see these requests. Only the keyframe at or before
+ * the hovered time is decoded - close enough for a preview, and every time within
+ * the same GOP shares one cached bitmap.
+ */
+export class PreviewFrames {
+  private demuxer: Demuxer;
+  private keyframes: Promise<number[]>;   // Keyframe timestamps (µs), ascending
+  private decoder: VideoDecoder | null = null;
+  private cache: Map<string, ImageBitmap> = new Map();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  // Callbacks for the decode in flight - swapped per request so one decoder can be reused
+  private onFrame: (frame: VideoFrame) => void = (frame) => frame.close();
+  private onError: (error: Error) => void = () => {};
+
+  constructor(demuxer: Demuxer) {
+    this.demuxer = demuxer;
+    this.keyframes = demuxer.getVideoSamples().then((samples) => samples
+      .filter((sample) => sample.keyframe)
+      .map((sample) => sample.timestamp));
+  }
+
+  /**
+   * @param time - Seconds
+   * @param width - Preview width in pixels (height follows the aspect ratio)
+   * @returns A new ImageBitmap the caller owns - the cached one stays here
+   */
+  async get(time: number, width: number): Promise<ImageBitmap> {
+    const keyframe = await this.getKeyframeBefore(time * 1e6);
+    const key = `${keyframe}@${width}`;
+
+    let bitmap = this.cache.get(key);
+    if (bitmap) {
+      // Move to the back of the eviction order
+      this.cache.delete(key);
+      this.cache.set(key, bitmap);
+    } else {
+      // One decode at a time - hovering fires far faster than frames decode, and
+      // an earlier request in the queue may already have decoded this keyframe
+      bitmap = await this.enqueue(async () => this.cache.get(key) ?? await this.decodeKeyframe(keyframe, width));
+      if (!this.cache.has(key)) this.store(key, bitmap);
+    }
+
+    return createImageBitmap(bitmap);
+  }
+
+  destroy() {
+    if (this.decoder && this.decoder.state !== 'closed') this.decoder.close();
+    for (const bitmap of this.cache.values()) bitmap.close();
+    this.cache.clear();
+  }
+
+  private async getKeyframeBefore(timestamp: number): Promise<number> {
+    const keyframes = await this.keyframes;
+
+    let keyframe = keyframes[0] ?? 0;
+    for (const candidate of keyframes) {
+      if (candidate > timestamp) break;
+      keyframe = candidate;
+    }
+    return keyframe;
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => {});
+    return result;
+  }
+
+  private async decodeKeyframe(timestamp: number, width: number): Promise<ImageBitmap> {
+    // A segment starting and ending on the keyframe is just that one chunk
+    const chunks = <EncodedVideoChunk[]> await this.demuxer.extractSegment('video', timestamp / 1e6, timestamp / 1e6 + 0.001);
+    const chunk = chunks.find((c) => c.type === 'key');
+    if (!chunk) {
+      throw new Error(`No keyframe at ${timestamp / 1e6}s`);
+    }
+
+    const frame = await this.decode(chunk);
+
+    try {
+      return await createImageBitmap(frame, {
+        resizeWidth: width,
+        resizeHeight: Math.round(width * frame.displayHeight / frame.displayWidth),
+        resizeQuality: 'medium',
+      });
+    } finally {
+      frame.close();
+    }
+  }
+
+  private decode(chunk: EncodedVideoChunk): Promise<VideoFrame> {
+    return new Promise((resolve, reject) => {
+      // Each request sends one keyframe and flushes, so nothing carries over between requests
+      this.onFrame = resolve;
+      this.onError = reject;
+
+      if (!this.decoder || this.decoder.state === 'closed') {
+        this.decoder = new VideoDecoder({
+          output: (frame) => this.onFrame(frame),
+          error: (e) => this.onError(e),
+        });
+        this.decoder.configure(this.demuxer.getTracks().video!);
+      }
+
+      this.decoder.decode(chunk);
+      this.decoder.flush().catch(reject);
+    });
+  }
+
+  private store(key: string, bitmap: ImageBitmap) {
+    this.cache.set(key, bitmap);
+
+    if (this.cache.size > MAX_CACHED_FRAMES) {
+      const [oldestKey, oldest] = this.cache.entries().next().value!;
+      oldest.close();
+      this.cache.delete(oldestKey);
+    }
+  }
+}
@@ -2,10 +2,14 @@ import {ArrayBufferTarget, Muxer} from "mp4-muxer";
 import EventEmitter from "../../../utils/EventEmitter";
 import { WorkerController } from "../../../utils/WorkerController";
 import { VideoWorker } from "../video/video";
+import TimeStretchWorker from "./time-stretch.worker.ts?worker&inline";
+import { getLoopPosition } from "../../clock";
+import type { LoopRange } from "../../clock";
 export interface AudioTrackData {
     codec: string,
     sampleRate: number ,
-    numberOfChannels: number
+    numberOfChannels: number,
+    description?: Uint8Array // Codec setup, e.g. the OpusHead of a WebM file
 }
 
 // Duration of each audio segment (time-based blocks that contain multiple EncodedAudioChunks)
@@ -15,9 +19,10 @@ const SEGMENT_DURATION = 30; // seconds
 export interface AudioPlayerArgs {
 
     audioConfig: AudioTrackData;
+    trackId?: number; // Audio track to play - the file's default track when absent
     duration: number;
     worker: WorkerController;
-    file: File;
+    file: File | Blob | string;
 }
 
 
@@ -25,6 +30,7 @@ export class WebAudioPlayer {
 
 
     audioContext: AudioContext | null;
+    gainNode: GainNode | null; // Master volume - every segment plays through it
     sourceNode: AudioBufferSourceNode | null;
     isPlaying: boolean;
     startTime: number;
@@ -32,27 +38,50 @@ export class WebAudioPlayer {
     duration: number;
     encodedChunks: EncodedAudioChunk[]; // EncodedAudioChunks from current segment
     audioSegments: Map<number, AudioBuffer>; // Decoded audio segments (segmentIndex -> AudioBuffer)
-    scheduledNodes: Map<number, AudioBufferSourceNode>;
+    scheduledNodes: Map<AudioBufferSourceNode, number>; // Scheduled node -> media time it starts playing from
     preloadThreshold: number; // Seconds before segment end to trigger preload
-    file: File;
+    file: File | Blob | string;
 
     worker: WorkerController;
     isPreloading: boolean;
     audioConfig: AudioTrackData | null;
+    trackId: number | undefined; // Audio track segments are requested from
+    playbackRate: number;
+    preservesPitch: boolean; // Time-stretch segments instead of resampling when playbackRate !== 1
+    stretchedSegments: Map<number, AudioBuffer>; // Time-stretched copies of audioSegments for the current playbackRate
+    pendingStretches: Map<number, Promise<AudioBuffer | null>>; // Segments being stretched by the worker
+    stretchWorker: WorkerController | null; // Created the first time a segment is stretched
+    stretchRejections: Set<(error: Error) => void>; // Rejects the stretches still in the worker, on terminate()
+    isStarting: boolean; // startPlayback() is loading the first segment - the timeline holds still until it's ready
+    startRequest: number; // Bumped by each startPlayback() - an older call still loading gives up
+    loopRange: LoopRange | null; // Timeline jumps from end back to start instead of playing on
+    loopScheduled: boolean; // The audio for the next pass of the loop is already scheduled
     constructor(args: AudioPlayerArgs) {
         this.audioContext = null;
+        this.gainNode = null;
         this.sourceNode = null;
         this.isPlaying = false;
         this.startTime = 0;
         this.pauseTime = 0;
         this.duration = args.duration;
         this.audioConfig = args.audioConfig;
+        this.trackId = args.trackId;
 
         this.encodedChunks = [];
         this.audioSegments = new Map(); // Cache for decoded audio segments
         this.scheduledNodes = new Map(); // Track scheduled audio nodes
         this.preloadThreshold = 5; // Seconds before segment end to trigger preload
         this.isPreloading = false;
+        this.playbackRate = 1;
+        this.preservesPitch = true;
+        this.stretchedSegments = new Map();
+        this.pendingStretches = new Map();
+        this.stretchWorker = null;
+        this.stretchRejections = new Set();
+        this.isStarting = false;
+        this.startRequest = 0;
+        this.loopRange = null;
+        this.loopScheduled = false;
 
         //Audio Renderer gets its own worker to avoid using the video worker to get audio chunks while the video renderer is running / fetching video chunks
         this.worker = args.worker;
@@ -64,6 +93,8 @@ export class WebAudioPlayer {
 
     init() {
         this.audioContext = new AudioContext();
+        this.gainNode = this.audioContext.createGain();
+        this.gainNode.connect(this.audioContext.destination);
 
         this.seek(0);
         
@@ -80,16 +111,27 @@ export class WebAudioPlayer {
             fastStart: 'in-memory',
             firstTimestampBehavior: 'offset',
             audio: {
-                codec: 'aac',
+                codec: config.codec === 'opus' ? 'opus' : 'aac',
                 sampleRate: config.sampleRate,
                 numberOfChannels: config.numberOfChannels
             }
         });
 
+        // The muxer writes the codec setup from the first chunk's metadata - for Opus
+        // that carries the pre-skip, which keeps the audio in sync with the video
+        const meta = config.description ? {
+            decoderConfig: {
+                codec: config.codec,
+                sampleRate: config.sampleRate,
+                numberOfChannels: config.numberOfChannels,
+                description: config.description
+            }
+        } : undefined;
+
         // Add EncodedAudioChunks to muxer
-        for (const chunk of chunks) {
-            muxer.addAudioChunk(chunk);
-        }
+        chunks.forEach((chunk, i) => {
+            muxer.addAudioChunk(chunk, i === 0 ? meta : undefined);
+        });
 
         // Finalize and get array buffer
         await muxer.finalize();
@@ -107,6 +149,7 @@ export class WebAudioPlayer {
         const chunks = <EncodedAudioChunk[]> await this.worker.sendMessage('get-audio-segment', {
             start: segmentIndex * SEGMENT_DURATION,
             end: segmentIndex * SEGMENT_DURATION + SEGMENT_DURATION,
+            trackId: this.trackId,
             file: this.file
         });
 
@@ -128,15 +171,19 @@ export class WebAudioPlayer {
             return this.audioSegments.get(segmentIndex);
         }
 
+        // The track can change while this loads - its result then belongs to the old track
+        const trackId = this.trackId;
+        const config = this.audioConfig!;
+
         // Fetch EncodedAudioChunks for this segment
         const encodedChunks = await this.getEncodedChunksForTime(segmentIndex * SEGMENT_DURATION);
-        if (encodedChunks.length === 0) return null;
+        if (!encodedChunks || encodedChunks.length === 0 || this.trackId !== trackId) return null;
 
         try {
             const a = performance.now();
 
             // Mux EncodedAudioChunks to AAC buffer
-            const muxedBuffer = await this.muxEncodedChunksToBuffer(encodedChunks, this.audioConfig!);
+            const muxedBuffer = await this.muxEncodedChunksToBuffer(encodedChunks, config);
 
             const b = performance.now();
 
@@ -146,6 +193,8 @@ export class WebAudioPlayer {
             const c = performance.now();
             console.log(`Segment ${segmentIndex}: Muxing took ${b - a}ms, Decoding took ${c - b}ms`);
 
+            if (this.trackId !== trackId) return null;
+
             // Cache the decoded segment
             this.audioSegments.set(segmentIndex, audioBuffer);
 
@@ -158,13 +207,33 @@ export class WebAudioPlayer {
 
 
 
+    /**
+     * Play from a media time, once its segment is loaded
+     *
+     * Loading (and time-stretching) can take a while, so the timeline holds at
+     * startFrom until the segment is ready and only then starts counting - otherwise
+     * the segment would start in the past, with its beginning cut off.
+     */
     async startPlayback(startFrom = this.pauseTime) {
         // Clear any previously scheduled nodes
         this.clearScheduledNodes();
 
-        const currentSegment = await this.loadSegment(startFrom);
+        const request = ++this.startRequest;
+        this.pauseTime = startFrom;
+        this.isStarting = true;
+
+        let currentSegment: AudioBuffer | null;
+        try {
+            currentSegment = await this.loadPlayableSegment(startFrom);
+        } finally {
+            // Seeked meanwhile - the newer call takes over
+            if (request === this.startRequest) {
+                this.isStarting = false;
+                this.startTime = this.audioContext!.currentTime;
+            }
+        }
 
-        if (!currentSegment) return;
+        if (!currentSegment || request !== this.startRequest || !this.isPlaying) return;
 
         const segmentOffset = startFrom % SEGMENT_DURATION;
         const timeUntilEnd = SEGMENT_DURATION - segmentOffset;
@@ -173,16 +242,29 @@ export class WebAudioPlayer {
         this.scheduleSegment(currentSegment, startFrom, segmentOffset);
 
         // Pre-load and schedule next segment
-        this.preloadNextSegment(startFrom + timeUntilEnd);
+        this.preloadNextSegment(startFrom + timeUntilEnd).catch((error) => {
+            console.error('Error preloading audio segment:', error);
+        });
     }
 
     clearScheduledNodes() {
         // Clear both audio nodes and preload timeouts
-        for (const node of this.scheduledNodes.values()) {
+        for (const node of this.scheduledNodes.keys()) {
             node.stop();
             node.disconnect();
         }
         this.scheduledNodes.clear();
+        this.loopScheduled = false;
+    }
+
+    /**
+     * Check whether audio starting at this media time is already scheduled
+     */
+    isScheduled(startTime: number) {
+        for (const scheduledStart of this.scheduledNodes.values()) {
+            if (scheduledStart === startTime) return true;
+        }
+        return false;
     }
 
     getCurrentSegmentIndex() {
@@ -192,16 +274,20 @@ export class WebAudioPlayer {
     async preloadNextSegment(startTime: number) {
         if (this.isPreloading || startTime >= this.duration) return;
 
+        // Past the loop point - scheduleLoopRestart() takes over from here
+        if (this.loopRange && startTime >= this.loopRange.end) return;
+
         const nextSegmentIndex = Math.floor(startTime / SEGMENT_DURATION);
 
         // Check if we already have this segment cached
-        if (this.audioSegments.has(nextSegmentIndex)) {
-            this.scheduleSegment(this.audioSegments.get(nextSegmentIndex), startTime, 0);
+        const cached = this.getPlayableSegment(nextSegmentIndex);
+        if (cached) {
+            this.scheduleSegment(cached, startTime, 0);
             return;
         }
         this.isPreloading = true;
         try {
-            const nextSegment = await this.loadSegment(startTime);
+            const nextSegment = await this.loadPlayableSegment(startTime);
             if (!nextSegment || !this.isPlaying) return;
 
             this.scheduleSegment(nextSegment, startTime, 0);
@@ -212,25 +298,231 @@ export class WebAudioPlayer {
         }
     }
 
-    scheduleSegment(audioBuffer: AudioBuffer, startTime: number, offset: number) {
+    /**
+     * @param audioBuffer - The segment as loadPlayableSegment() returns it
+     * @param startTime - Media time the node starts playing from
+     * @param offset - Position of startTime within the segment
+     * @param when - AudioContext time to start at (defaults to where startTime falls on the current timeline)
+     */
+    scheduleSegment(audioBuffer: AudioBuffer, startTime: number, offset: number, when?: number) {
         const sourceNode = this.audioContext!.createBufferSource();
+
         sourceNode.buffer = audioBuffer;
-        sourceNode.connect(this.audioContext!.destination);
-        const playbackTime = this.startTime + (startTime - this.pauseTime);
+
+        if (this.isStretching()) {
+            // Stretched buffer already runs at the target speed, so offsets are in output time
+            offset = offset / this.playbackRate;
+        } else {
+            sourceNode.playbackRate.value = this.playbackRate;
+        }
+
+        sourceNode.connect(this.gainNode!);
+        // Media time advances playbackRate seconds per AudioContext second
+        const playbackTime = when ?? this.startTime + (startTime - this.pauseTime) / this.playbackRate;
         sourceNode.start(playbackTime, offset);
-        this.scheduledNodes.set(startTime, sourceNode);
+
+        // Cut the segment off at the loop point - the next pass is a separate node
+        const segmentEnd = (Math.floor(startTime / SEGMENT_DURATION) + 1) * SEGMENT_DURATION;
+        if (this.loopRange && startTime < this.loopRange.end && segmentEnd > this.loopRange.end) {
+            sourceNode.stop(playbackTime + (this.loopRange.end - startTime) / this.playbackRate);
+        }
+
+        this.scheduledNodes.set(sourceNode, startTime);
 
         // Clean up completed nodes
         sourceNode.onended = () => {
             sourceNode.disconnect();
-            this.scheduledNodes.delete(startTime);
+            this.scheduledNodes.delete(sourceNode);
         };
     }
 
+    /**
+     * Loop playback between start and end (null to stop looping)
+     *
+     * The audio for each pass is scheduled ahead of the loop point, back to back
+     * with the end of the previous pass, so there is no gap when it wraps.
+     */
+    async setLoopRange(range: LoopRange | null) {
+        // Read before the new range can wrap the timeline
+        const currentTime = this.getCurrentTime();
+
+        this.loopRange = range;
+
+        // Decode the start of the loop now so the restart can be scheduled in time
+        if (range) await this.loadSegment(range.start);
+
+        // Reschedule so segments stop at the new loop point
+        if (this.isPlaying) await this.seek(currentTime);
+    }
+
+    /**
+     * Schedule the audio for the next pass of the loop to start exactly at the loop point
+     */
+    async scheduleLoopRestart() {
+        if (!this.loopRange || this.loopScheduled) return;
+
+        this.loopScheduled = true;
+
+        const { start, end } = this.loopRange;
+        const anchor = this.startTime;
+
+        const segment = await this.loadPlayableSegment(start);
+
+        // Seeking / pausing while loading reschedules everything anyway
+        if (!segment || !this.isPlaying || this.startTime !== anchor || this.loopRange?.start !== start) {
+            return;
+        }
+
+        const loopPoint = this.startTime + (end - this.pauseTime) / this.playbackRate;
+        this.scheduleSegment(segment, start, start % SEGMENT_DURATION, loopPoint);
+    }
+
+    /**
+     * Whether segments play time-stretched rather than resampled
+     */
+    isStretching() {
+        return this.playbackRate !== 1 && this.preservesPitch;
+    }
+
+    /**
+     * A segment ready to schedule, if it's already loaded (and stretched, when stretching)
+     */
+    getPlayableSegment(segmentIndex: number) {
+        return this.isStretching() ? this.stretchedSegments.get(segmentIndex) : this.audioSegments.get(segmentIndex);
+    }
+
+    /**
+     * Load a segment and, when stretching, its time-stretched copy for the current playback rate
+     * @param time - Time in seconds
+     * @returns null if it couldn't be loaded, or the rate / track changed meanwhile
+     */
+    async loadPlayableSegment(time: number) {
+        const audioBuffer = await this.loadSegment(time);
+        if (!audioBuffer || !this.isStretching()) return audioBuffer;
+
+        return this.getStretchedSegment(Math.floor(time / SEGMENT_DURATION), audioBuffer);
+    }
+
+    /**
+     * Get the time-stretched version of a segment for the current playback rate
+     *
+     * WSOLA over a whole segment takes long enough to stall the page, so it runs
+     * in a worker. Changing the rate or track clears pendingStretches, and a
+     * stretch that finishes after that is dropped.
+     * @param segmentIndex - Index of the segment in audioSegments
+     * @param audioBuffer - Decoded segment at normal speed
+     * @returns null if the stretch failed or is stale
+     */
+    getStretchedSegment(segmentIndex: number, audioBuffer: AudioBuffer): Promise<AudioBuffer | null> {
+        const cached = this.stretchedSegments.get(segmentIndex);
+        if (cached) return Promise.resolve(cached);
+
+        let pending = this.pendingStretches.get(segmentIndex);
+        if (pending) return pending;
+
+        this.stretchWorker ??= new WorkerController(TimeStretchWorker);
+
+        // Copies - the originals stay in audioSegments for playback at other rates
+        const channels: Float32Array[] = [];
+        for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+            channels.push(audioBuffer.getChannelData(channel).slice());
+        }
+
+        const worker = this.stretchWorker;
+        pending = new Promise<{ channels?: Float32Array<ArrayBuffer>[]; error?: string }>((resolve, reject) => {
+            this.stretchRejections.add(reject);
+
+            worker.sendMessage<{ channels?: Float32Array<ArrayBuffer>[]; error?: string }>('stretch', {
+                channels,
+                rate: this.playbackRate
+            }, channels.map((channel) => channel.buffer), false)
+                .then(resolve, reject)
+                .finally(() => this.stretchRejections.delete(reject));
+        }).then((result) => {
+            if (this.pendingStretches.get(segmentIndex) !== pending) return null;
+            this.pendingStretches.delete(segmentIndex);
+
+            if (!result?.channels) {
+                console.error('Error time-stretching audio segment:', result?.error);
+                return null;
+            }
+
+            const stretched = this.audioContext!.createBuffer(result.channels.length, result.channels[0].length, audioBuffer.sampleRate);
+            result.channels.forEach((data, channel) => stretched.copyToChannel(data, channel));
+
+            this.stretchedSegments.set(segmentIndex, stretched);
+            return stretched;
+        });
+
+        this.pendingStretches.set(segmentIndex, pending);
+        return pending;
+    }
+
+    /**
+     * Change the playback rate, rescheduling audio from the current position
+     * @param rate - Playback rate (1 = normal speed)
+     * @param preservesPitch - Time-stretch instead of resampling (defaults to the current setting)
+     */
+    async setPlaybackRate(rate: number, preservesPitch: boolean = this.preservesPitch) {
+        if (rate === this.playbackRate && preservesPitch === this.preservesPitch) return;
+
+        // Capture position with the old rate before the timeline changes
+        const currentTime = this.getCurrentTime();
+
+        this.playbackRate = rate;
+        this.preservesPitch = preservesPitch;
+        this.stretchedSegments.clear();
+        this.pendingStretches.clear();
+
+        await this.seek(currentTime);
+    }
+
+    /**
+     * Switch to another audio track, carrying on from the current position
+     *
+     * Decoded segments are from the old track, so they are dropped and the audio
+     * from here on is loaded again from the new one.
+     * @param config - The new track's codec config
+     */
+    async setAudioTrack(trackId: number, config: AudioTrackData) {
+        const currentTime = this.getCurrentTime();
+
+        this.trackId = trackId;
+        this.audioConfig = config;
+        this.audioSegments.clear();
+        this.stretchedSegments.clear();
+        this.pendingStretches.clear();
+
+        await this.seek(currentTime);
+    }
+
+    /**
+     * Set the master gain (0 = silent, 1 = full volume)
+     */
+    setVolume(volume: number) {
+        this.gainNode!.gain.value = volume;
+    }
+
     async play() {
-        this.startTime = this.audioContext!.currentTime;
-        await this.startPlayback();
+        this.pauseTime = getLoopPosition(this.pauseTime, this.loopRange);
         this.isPlaying = true;
+        await this.startPlayback();
+    }
+
+    /**
+     * Stop playback and shut down the time-stretch worker
+     */
+    terminate() {
+        this.pause();
+        this.stretchWorker?.terminate();
+        this.stretchWorker = null;
+
+        // The worker won't answer any more
+        for (const reject of this.stretchRejections) {
+            reject(new Error('Audio player terminated'));
+        }
+        this.stretchRejections.clear();
+        this.pendingStretches.clear();
     }
 
     async pause() {
@@ -246,33 +538,86 @@ export class WebAudioPlayer {
             this.clearScheduledNodes();
             this.isPlaying = false;
         }
+        time = getLoopPosition(time, this.loopRange);
         this.pauseTime = time;
         if (wasPlaying) {
-            this.startTime = this.audioContext!.currentTime;
             this.isPlaying = true;
             await this.startPlayback(time);
-
         }
     }
 
 
     checkForPreLoad() {
-        if (!this.isPlaying) return;
+        if (!this.isPlaying || this.isStarting) return;
         const currentTime = this.getCurrentTime();
         // Check if we need to preload the next segment
         const currentSegmentIndex = this.getCurrentSegmentIndex();
         const timeInCurrentSegment = currentTime % SEGMENT_DURATION;
+        const nextSegmentStart = (currentSegmentIndex + 1) * SEGMENT_DURATION;
 
+        // Checks scheduling rather than the cache - a looped segment is cached but still needs scheduling on each pass
         if (timeInCurrentSegment >= (SEGMENT_DURATION - this.preloadThreshold) &&
             !this.isPreloading &&
-            !this.audioSegments.has(currentSegmentIndex + 1)) {
-            this.preloadNextSegment((currentSegmentIndex + 1) * SEGMENT_DURATION);
-        }      
+            !this.isScheduled(nextSegmentStart)) {
+            this.preloadNextSegment(nextSegmentStart).catch((error) => {
+                console.error('Error preloading audio segment:', error);
+            });
+        }
+
+        if (this.loopRange && this.loopRange.end - currentTime <= this.preloadThreshold) {
+            this.scheduleLoopRestart().catch((error) => {
+                console.error('Error scheduling loop restart:', error);
+            });
+        }
     }
 
-    getCurrentTime() {
-        if (!this.isPlaying) return this.pauseTime;
-        return this.pauseTime + (this.audioContext!.currentTime - this.startTime);
+    getCurrentTime(): number {
+        if (!this.isPlaying || this.isStarting) return this.pauseTime;
+
+        return this.wrapLoopTime(this.getTimelineTime());
+    }
+
+    /**
+     * Re-anchor the timeline at the start of the loop once it has crossed the loop point
+     *
+     * Called by the Clock every tick, before it reads the time. The next pass was
+     * scheduled to begin at the loop point - if it didn't load in time, the audio
+     * is picked up from the current position instead.
+     */
+    wrapLoop() {
+        if (!this.isPlaying || this.isStarting || !this.loopRange) return;
+
+        const { start, end } = this.loopRange;
+        if (this.getTimelineTime() < end) return;
+
+        const missedRestart = !this.loopScheduled;
+
+        this.startTime += (end - this.pauseTime) / this.playbackRate;
+        this.pauseTime = start;
+        this.loopScheduled = false;
+
+        if (missedRestart) {
+            this.startPlayback(this.getCurrentTime()).catch((error) => {
+                console.error('Error restarting loop playback:', error);
+            });
+        }
+    }
+
+    /**
+     * Media time on the current anchor, before any loop wrap
+     */
+    private getTimelineTime() {
+        return this.pauseTime + (this.audioContext!.currentTime - this.startTime) * this.playbackRate;
+    }
+
+    /**
+     * Where a timeline time lands once past the loop point, if the clock hasn't re-anchored yet
+     */
+    private wrapLoopTime(time: number) {
+        if (!this.loopRange || time < this.loopRange.end) return time;
+
+        const { start, end } = this.loopRange;
+        return start + (time - end) % (end - start);
     }
 
 
@@ -0,0 +1,93 @@
+/**
+ * Time-stretching for pitch-preserving playback rate changes
+ *
+ * AudioBufferSourceNode.playbackRate resamples audio, so playing at 2x also
+ * raises the pitch by an octave. To change speed without changing pitch we
+ * stretch the decoded AudioBuffer ahead of time using WSOLA
+ * (Waveform Similarity Overlap-Add):
+ *
+ *   - Read windowed frames from the input at `rate * hop` intervals
+ *   - Write them to the output at fixed `hop` intervals (overlap-add)
+ *   - Nudge each input frame within a small search window so its waveform
+ *     lines up with where the previous frame left off (avoids phasing artifacts)
+ *
+ * The stretched buffer is then played at playbackRate 1.
+ */
+
+const FRAME_SIZE = 2048;              // ~43ms at 48kHz
+const HOP_SIZE = FRAME_SIZE / 2;      // 50% overlap - Hann windows sum to 1
+const SEARCH_RADIUS = 512;            // Samples to search either side of the nominal position
+const SEARCH_STEP = 4;                // Decimation for the similarity search (speed over precision)
+
+/**
+ * Time-stretch audio by the given rate without changing pitch
+ *
+ * Works on raw channel data rather than an AudioBuffer so it can run in a worker,
+ * where there's no AudioContext to allocate buffers with.
+ * @param inputs - Decoded source audio, one array per channel
+ * @param rate - Playback rate (2 = twice as fast, output is half as long)
+ * @returns New channel data of length input length / rate
+ */
+export function timeStretch(inputs: Float32Array[], rate: number): Float32Array[] {
+    const inputLength = inputs[0]?.length ?? 0;
+    const outputLength = Math.max(1, Math.ceil(inputLength / rate));
+    const outputs = inputs.map(() => new Float32Array(outputLength));
+
+    if (inputLength < FRAME_SIZE) {
+        inputs.forEach((input, channel) => outputs[channel].set(input.subarray(0, outputLength)));
+        return outputs;
+    }
+
+    // Similarity search runs on a mono mix so all channels stay aligned
+    const mono = new Float32Array(inputLength);
+    for (const input of inputs) {
+        for (let i = 0; i < inputLength; i++) mono[i] += input[i] / inputs.length;
+    }
+
+    const window = new Float32Array(FRAME_SIZE);
+    for (let i = 0; i < FRAME_SIZE; i++) {
+        window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / FRAME_SIZE);
+    }
+
+    const maxInputPosition = inputLength - FRAME_SIZE;
+    let previousPosition = 0;
+
+    for (let outputPosition = 0, frame = 0; outputPosition < outputLength; outputPosition += HOP_SIZE, frame++) {
+        const nominal = Math.min(Math.round(frame * HOP_SIZE * rate), maxInputPosition);
+        let best = nominal;
+
+        if (frame > 0) {
+            // Where the previous frame would naturally have continued
+            const target = Math.min(previousPosition + HOP_SIZE, maxInputPosition);
+            const searchStart = Math.max(0, nominal - SEARCH_RADIUS);
+            const searchEnd = Math.min(maxInputPosition, nominal + SEARCH_RADIUS);
+            let bestScore = -Infinity;
+
+            for (let candidate = searchStart; candidate <= searchEnd; candidate += SEARCH_STEP) {
+                let score = 0;
+                for (let i = 0; i < HOP_SIZE; i += SEARCH_STEP) {
+                    score += mono[target + i] * mono[candidate + i];
+                }
+                if (score > bestScore) {
+                    bestScore = score;
+                    best = candidate;
+                }
+            }
+        }
+
+        const length = Math.min(FRAME_SIZE, outputLength - outputPosition);
+        for (let channel = 0; channel < inputs.length; channel++) {
+            const input = inputs[channel];
+            const out = outputs[channel];
+            for (let i = 0; i < length; i++) {
+                // Nothing overlaps the first half of the first frame, so don't fade it in
+                const gain = frame === 0 && i < HOP_SIZE ? 1 : window[i];
+                out[outputPosition + i] += input[best + i] * gain;
+            }
+        }
+
+        previousPosition = best;
+    }
+
+    return outputs;
+}
@@ -0,0 +1,42 @@
+import { timeStretch } from './time-stretch';
+
+/**
+ * Time-stretch Worker
+ *
+ * Runs WSOLA off the main thread - stretching a whole segment takes long enough
+ * to stall rendering and input if it runs next to the player.
+ *
+ * Commands:
+ * - 'stretch': { channels, rate } → { channels } or { error }
+ *
+ * Channel data is transferred both ways rather than copied.
+ */
+
+self.onmessage = function(event: MessageEvent) {
+  const { cmd, data, request_id } = event.data;
+
+  switch (cmd) {
+    case 'stretch':
+      try {
+        const { channels, rate } = <{ channels: Float32Array[]; rate: number }> data;
+        const stretched = timeStretch(channels, rate);
+
+        self.postMessage({
+          request_id,
+          res: { channels: stretched }
+        }, { transfer: stretched.map((channel) => channel.buffer) });
+      } catch (error) {
+        self.postMessage({
+          request_id,
+          res: { error: error instanceof Error ? error.message : String(error) }
+        });
+      }
+      break;
+
+    default:
+      self.postMessage({
+        request_id,
+        res: { error: `Unknown command: ${cmd}` }
+      });
+  }
+};
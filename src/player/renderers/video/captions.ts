@@ -0,0 +1,77 @@
+/**
+ * Draws the active subtitle cues over decoded frames
+ *
+ * GPUFrameRenderer owns the player canvas (webgpu / bitmaprenderer context), so
+ * captions can't be drawn on it directly - instead the frame and text are composited
+ * on a 2D OffscreenCanvas and the result is handed to the GPU renderer as a new frame.
+ */
+export class CaptionRenderer {
+    private canvas: OffscreenCanvas | null = null;
+    private ctx: OffscreenCanvasRenderingContext2D | null = null;
+    private lines: string[] = [];
+
+    /**
+     * Set the caption text, one entry per active cue (empty or null clears it)
+     */
+    setText(text: string[] | null) {
+        this.lines = (text ?? []).flatMap((cue) => cue.split('\n'));
+    }
+
+    hasText(): boolean {
+        return this.lines.length > 0;
+    }
+
+    /**
+     * Returns the frame untouched when there is nothing to draw, otherwise closes
+     * it and returns a captioned copy with the same timestamp
+     */
+    compose(frame: VideoFrame): VideoFrame {
+        if (!this.hasText()) return frame;
+
+        const width = frame.displayWidth;
+        const height = frame.displayHeight;
+
+        if (!this.canvas || this.canvas.width !== width || this.canvas.height !== height) {
+            this.canvas = new OffscreenCanvas(width, height);
+            this.ctx = this.canvas.getContext('2d')!;
+        }
+
+        const ctx = this.ctx!;
+        ctx.drawImage(frame, 0, 0, width, height);
+        this.drawLines(ctx, width, height);
+
+        const captioned = new VideoFrame(this.canvas, {
+            timestamp: frame.timestamp,
+            duration: frame.duration ?? undefined,
+        });
+        frame.close();
+
+        return captioned;
+    }
+
+    /**
+     * Bottom-centred white text with a dark outline, sized relative to the frame height
+     */
+    private drawLines(ctx: OffscreenCanvasRenderingContext2D, width: number, height: number) {
+        const fontSize = Math.round(height * 0.05);
+        const lineHeight = fontSize * 1.25;
+        const bottom = height * 0.95;
+
+        ctx.save();
+        ctx.font = `${fontSize}px sans-serif`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'bottom';
+        ctx.lineJoin = 'round';
+        ctx.lineWidth = Math.max(2, fontSize / 8);
+        ctx.strokeStyle = 'rgba(0, 0, 0, 0.9)';
+        ctx.fillStyle = '#ffffff';
+
+        this.lines.forEach((line, i) => {
+            const y = bottom - (this.lines.length - 1 - i) * lineHeight;
+            ctx.strokeText(line, width / 2, y);
+            ctx.fillText(line, width / 2, y);
+        });
+
+        ctx.restore();
+    }
+}
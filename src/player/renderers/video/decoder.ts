@@ -1,4 +1,5 @@
 import { GPUFrameRenderer } from 'webcodecs-utils';
+import { CaptionRenderer } from './captions';
 
 export interface VideoTrackData {
     codec: string,
@@ -8,6 +9,27 @@ export interface VideoTrackData {
     frameRate: number
   }
 
+/**
+ * Decoder config for the chunks from index on - adaptive streams switch renditions
+ * (codec / resolution) at segment boundaries, which always start with a keyframe
+ */
+export interface ConfigChange {
+    index: number,
+    config: VideoTrackData
+}
+
+/**
+ * The config chunk index is decoded with - the last change at or before it
+ */
+export function getConfigAt(metadata: VideoTrackData, changes: ConfigChange[], index: number): VideoTrackData {
+    let config = metadata;
+    for (const change of changes) {
+        if (change.index > index) break;
+        config = change.config;
+    }
+    return config;
+}
+
 
 export default class VideoRenderer {
 
@@ -20,8 +42,13 @@ export default class VideoRenderer {
     frameRenderer: GPUFrameRenderer;
     decoder: VideoDecoder;
     metadata: VideoTrackData;
+    configChanges: ConfigChange[];
+    activeConfig: VideoTrackData | null = null; // What the decoder is currently configured with
+    captions: CaptionRenderer | null;
+    playbackRate: number = 1; // Frames are consumed this many times faster than real time
+    pendingFrame: { timestamp: number, resolve: () => void } | null = null; // Target of renderExact()
     initP: Promise<void>
-    constructor(metadata: VideoTrackData, chunks: EncodedVideoChunk[],  canvas: OffscreenCanvas, frameRenderer: GPUFrameRenderer) {
+    constructor(metadata: VideoTrackData, chunks: EncodedVideoChunk[],  canvas: OffscreenCanvas, frameRenderer: GPUFrameRenderer, captions: CaptionRenderer | null = null, configChanges: ConfigChange[] = []) {
 
 
         console.log(chunks[0])
@@ -34,8 +61,12 @@ export default class VideoRenderer {
 
         this.metadata = metadata;
 
+        this.configChanges = configChanges;
+
         this.frameRenderer = frameRenderer;
 
+        this.captions = captions;
+
         this.canvas = canvas;
 
         // Initialize GPU renderer with linear filtering (hardware accelerated)
@@ -58,6 +89,24 @@ export default class VideoRenderer {
             output: function (this: VideoRenderer, frame: VideoFrame){
 
 
+                // Stepping to an exact frame - everything before it only exists to get there
+                if(this.pendingFrame) {
+                    if(frame.timestamp < this.pendingFrame.timestamp) {
+                        frame.close();
+                        return;
+                    }
+
+                    const { timestamp, resolve } = this.pendingFrame;
+                    this.pendingFrame = null;
+
+                    if(frame.timestamp === timestamp) {
+                        this.firstRendered = true;
+                        this.renderFrame(frame).then(resolve);
+                        return;
+                    }
+                    resolve();
+                }
+
                 if(!this.firstRendered) {
                     this.firstRendered = true;
          
@@ -66,7 +115,7 @@ export default class VideoRenderer {
           
                     if(frame.timestamp/1e6 < this.lastRenderedTime) {
                         frame.close();
-                        if(this.rendered_buffer.length < 10) {
+                        if(this.rendered_buffer.length < this.getBufferTarget()) {
                             this.fillBuffer();
                         }
                         return;
@@ -86,6 +135,7 @@ export default class VideoRenderer {
         )
 
         decoder.configure(metadata);
+        this.activeConfig = metadata;
 
         return decoder;
 
@@ -96,7 +146,7 @@ export default class VideoRenderer {
     }
     async seek(time: number){
 
-    
+        this.cancelPendingFrame();
 
 
         for(let i=0; i < this.rendered_buffer.length; i++){
@@ -116,7 +166,7 @@ export default class VideoRenderer {
         }
 
         for (let i=lastKeyFrame; i< renderTill; i++){
-            this.decoder.decode(this.source_buffer[i]);
+            this.decodeChunk(i);
         }
 
 
@@ -126,6 +176,81 @@ export default class VideoRenderer {
 
     }
 
+    /**
+     * Decode and draw the frame with exactly this timestamp (µs), starting from the
+     * keyframe before it. Frames after it stay buffered so playback can carry on from here
+     */
+    async renderExact(timestamp: number){
+
+        const target = this.source_buffer.findIndex((chunk) => chunk.timestamp === timestamp);
+        if(target < 0) throw new Error(`No frame with timestamp ${timestamp} in this chunk`);
+
+        let keyFrame = 0;
+        for(let i = target; i >= 0; i--){
+            if(this.source_buffer[i].type === "key") {
+                keyFrame = i;
+                break;
+            }
+        }
+
+        this.cancelPendingFrame();
+
+        for(let i=0; i < this.rendered_buffer.length; i++){
+            this.rendered_buffer[i].close()
+        }
+        this.rendered_buffer = [];
+
+        // Drop anything still queued, otherwise stale frames race the target
+        const config = getConfigAt(this.metadata, this.configChanges, keyFrame);
+        if(this.decoder.state === 'closed'){
+            this.decoder = this.setupDecoder(config);
+        } else {
+            this.decoder.reset();
+            this.decoder.configure(config);
+            this.activeConfig = config;
+        }
+
+        this.lastRenderedTime = timestamp/1e6;
+
+        const rendered = new Promise<void>((resolve) => {
+            this.pendingFrame = { timestamp, resolve };
+        });
+
+        for(let i = keyFrame; i <= target; i++){
+            this.decodeChunk(i);
+        }
+        this.currentChunk = target + 1;
+
+        // Decoding ahead pushes the target out of a reordering decoder - at the end
+        // of the chunk there is nothing left to decode, so flush instead
+        if(this.currentChunk < this.source_buffer.length) {
+            this.fillBuffer();
+        } else {
+            await this.decoder.flush();
+        }
+
+        await rendered;
+    }
+
+    /**
+     * Decode source_buffer[index], first reconfiguring the decoder if the
+     * rendition changes there
+     */
+    decodeChunk(index: number){
+        const config = getConfigAt(this.metadata, this.configChanges, index);
+        if(config !== this.activeConfig) {
+            this.decoder.configure(config);
+            this.activeConfig = config;
+        }
+        this.decoder.decode(this.source_buffer[index]);
+    }
+
+    cancelPendingFrame(){
+        if(!this.pendingFrame) return;
+        this.pendingFrame.resolve();
+        this.pendingFrame = null;
+    }
+
     getLatestFrame(time: number){
 
 
@@ -142,7 +267,7 @@ export default class VideoRenderer {
 
         for (let i=0; i < this.rendered_buffer.length; i++){
 
-            if (this.rendered_buffer[i].timestamp/1000 < time &&  this.rendered_buffer[i].timestamp > this.rendered_buffer[latest_frame_buffer_index].timestamp){
+            if (this.rendered_buffer[i].timestamp/1e6 < time &&  this.rendered_buffer[i].timestamp > this.rendered_buffer[latest_frame_buffer_index].timestamp){
                 latest_frame_buffer_index = i
             }
         }
@@ -164,15 +289,18 @@ export default class VideoRenderer {
 
             if(latest_frame > -1){
 
-                for(let i=0; i < latest_frame-1; i++){
+                // Drop every frame the timeline has already passed. At playbackRate > 1
+                // this skips frames; at playbackRate < 1 getLatestFrame returns -1
+                // more often and the current frame is held instead
+                for(let i=0; i < latest_frame; i++){
                     this.rendered_buffer[i].close()
                 }
-                this.rendered_buffer.splice(0, latest_frame-1); //Drop frames
+                this.rendered_buffer.splice(0, latest_frame); //Drop frames
 
                 const frame_to_render = this.rendered_buffer.shift();
 
                 this.renderFrame(frame_to_render);
-                if(this.rendered_buffer.length < 5) this.fillBuffer();
+                if(this.rendered_buffer.length < this.getBufferTarget()/2) this.fillBuffer();
             }
 
 
@@ -181,9 +309,35 @@ export default class VideoRenderer {
 
     }
 
+    /**
+     * Number of chunks to decode ahead - scaled up when playing faster
+     * so the decoder keeps up with the frames being consumed
+     */
+    getBufferTarget(){
+        return Math.ceil(10 * Math.max(1, this.playbackRate));
+    }
+
+    setPlaybackRate(rate: number){
+        this.playbackRate = rate;
+    }
+
+    /**
+     * Release the decoder and any buffered frames - the renderer can't be used afterwards
+     */
+    close(){
+        this.cancelPendingFrame();
+
+        for(let i=0; i < this.rendered_buffer.length; i++){
+            this.rendered_buffer[i].close()
+        }
+        this.rendered_buffer = [];
+
+        if(this.decoder.state !== 'closed') this.decoder.close();
+    }
+
     fillBuffer(){
 
-        for(let i=0; i < 10; i++){
+        for(let i=0; i < this.getBufferTarget(); i++){
             if(this.currentChunk +i < this.source_buffer.length){
                 try{
 
@@ -203,7 +357,7 @@ export default class VideoRenderer {
                             }
                         }
                     }
-                    this.decoder.decode(this.source_buffer[this.currentChunk]);
+                    this.decodeChunk(this.currentChunk);
                     this.currentChunk +=1
                 } catch (e) {
                     console.log(e);
@@ -225,9 +379,12 @@ export default class VideoRenderer {
                 return;
             }
 
+            // Subtitles (if any) are composited first - otherwise this is the same frame
+            const output = this.captions ? this.captions.compose(frame) : frame;
+
             // Use GPU renderer for zero-copy rendering
-            this.frameRenderer.drawImage(frame);
-            frame.close();
+            this.frameRenderer.drawImage(output);
+            output.close();
 
         } catch (e) {
             console.log(e);
@@ -0,0 +1,97 @@
+import { ConfigChange, VideoTrackData, getConfigAt } from "./decoder";
+
+export type CaptureFormat = 'imagebitmap' | 'image/png' | 'image/jpeg' | 'image/webp';
+
+/**
+ * Decode the frame showing at a given time with a throwaway VideoDecoder
+ *
+ * Playback renderers keep their own decoder and buffers - capturing through them
+ * would drop buffered frames and move their decode position, so captures never do.
+ *
+ * @param chunks - Chunks of the segment containing the time, in decode order
+ * @param time - Time in seconds
+ * @param configChanges - Rendition switches within chunks (adaptive streams)
+ * @returns The frame - the caller must close it
+ */
+export async function decodeFrameAt(
+    metadata: VideoTrackData,
+    chunks: EncodedVideoChunk[],
+    time: number,
+    configChanges: ConfigChange[] = []
+): Promise<VideoFrame> {
+    // The frame showing at this time is the last one starting at or before it
+    let target = -1;
+    for (let i = 0; i < chunks.length; i++) {
+        if (chunks[i].timestamp <= time * 1e6 && (target < 0 || chunks[i].timestamp > chunks[target].timestamp)) {
+            target = i;
+        }
+    }
+    if (target < 0) {
+        throw new Error(`No frame at ${time}s`);
+    }
+
+    let keyFrame = 0;
+    for (let i = target; i >= 0; i--) {
+        if (chunks[i].type === "key") {
+            keyFrame = i;
+            break;
+        }
+    }
+
+    const timestamp = chunks[target].timestamp;
+    let captured = null as VideoFrame | null;
+    let decodeError = null as Error | null;
+
+    const decoder = new VideoDecoder({
+        output: (frame) => {
+            if (frame.timestamp === timestamp && !captured) {
+                captured = frame;
+            } else {
+                frame.close();
+            }
+        },
+        error: (error) => {
+            decodeError = error;
+        }
+    });
+
+    try {
+        decoder.configure(getConfigAt(metadata, configChanges, keyFrame));
+
+        for (let i = keyFrame; i <= target; i++) {
+            decoder.decode(chunks[i]);
+        }
+        await decoder.flush();
+    } finally {
+        if (decoder.state !== 'closed') decoder.close();
+    }
+
+    if (!captured) {
+        throw decodeError ?? new Error(`Failed to decode the frame at ${time}s`);
+    }
+
+    return captured;
+}
+
+/**
+ * Convert a frame to an ImageBitmap or an encoded image Blob. Closes the frame.
+ * @param quality - 0-1, for image/jpeg and image/webp
+ */
+export async function exportFrame(
+    frame: VideoFrame,
+    format: CaptureFormat,
+    quality?: number
+): Promise<ImageBitmap | Blob> {
+    try {
+        if (format === 'imagebitmap') {
+            return await createImageBitmap(frame);
+        }
+
+        const canvas = new OffscreenCanvas(frame.displayWidth, frame.displayHeight);
+        canvas.getContext('2d')!.drawImage(frame, 0, 0);
+
+        return await canvas.convertToBlob({ type: format, quality });
+    } finally {
+        frame.close();
+    }
+}
@@ -1,9 +1,10 @@
 import EventEmitter from "../../../utils/EventEmitter";
 import VideoWorkerConstructor from './video.worker.ts?worker&inline';
 import { WorkerController } from "../../../utils/WorkerController";
+import type { CaptureFormat } from "./frame-capture";
 
 export interface VideoWorkerParams {
-  src: File;
+  src: File | Blob | string;
   canvas: HTMLCanvasElement;
   fileWorkerPort: MessagePort;
 }
@@ -62,6 +63,35 @@ export class VideoWorker extends EventEmitter {
     await this.worker.sendMessage('seek', { time });
   }
 
+  /**
+   * Seek to the frame with exactly this timestamp (µs) and draw it
+   */
+  async seekToFrame(timestamp: number): Promise<void> {
+    await this.worker.sendMessage('seek-to-frame', { timestamp });
+  }
+
+  /**
+   * Decode the frame at a time with a separate decoder - playback is unaffected
+   * @returns undefined if the worker failed to capture it
+   */
+  async captureFrame(time: number, format: CaptureFormat, quality?: number): Promise<ImageBitmap | Blob | undefined> {
+    return await this.worker.sendMessage('capture-frame', { time, format, quality });
+  }
+
+  /**
+   * Set the playback rate so the worker can decode further ahead
+   */
+  async setPlaybackRate(rate: number): Promise<void> {
+    await this.worker.sendMessage('set-playback-rate', { rate });
+  }
+
+  /**
+   * Set the subtitle text to draw over the video, one entry per cue (null to clear)
+   */
+  async setCaptions(text: string[] | null): Promise<void> {
+    await this.worker.sendMessage('set-captions', { text });
+  }
+
   /**
    * Get debug information from the video worker
    */
@@ -70,10 +100,16 @@ export class VideoWorker extends EventEmitter {
   }
 
 
-  async setTrackData(videoMetadata: any, duration: number): Promise<void> {
+  /**
+   * @param options.chunkDuration - Seconds of video per renderer (default 300) - streams
+   * use short chunks so playback starts after a few segments
+   * @param options.width - Canvas size, when frames may vary in size (stream renditions)
+   */
+  async setTrackData(videoMetadata: any, duration: number, options?: { chunkDuration?: number, width?: number, height?: number }): Promise<void> {
     await this.worker.sendMessage('set-track-data', {
       videoMetadata,
-      duration
+      duration,
+      ...options
     });
   }
   /**
@@ -1,5 +1,7 @@
-import VideoRenderer, { VideoTrackData } from "./decoder";
+import VideoRenderer, { ConfigChange, VideoTrackData } from "./decoder";
 import { GPUFrameRenderer } from 'webcodecs-utils';
+import { CaptionRenderer } from "./captions";
+import { CaptureFormat, decodeFrameAt, exportFrame } from "./frame-capture";
 
 
 // Types
@@ -25,7 +27,12 @@ let videoManager: VideoTransformer | null = null;
 let offscreenCanvas: OffscreenCanvas | null = null;
 
 // Same chunk duration as used in audio
-const CHUNK_DURATION = 300; // Duration of each chunk in seconds
+const CHUNK_DURATION = 300; // Default duration of each chunk in seconds
+
+interface LoadedSegment {
+    chunks: EncodedVideoChunk[];
+    configs: ConfigChange[];
+}
 
 /**
  * ChunkedVideoManager manages multiple VideoRenderer instances, one per chunk
@@ -36,11 +43,14 @@ export default class VideoTransformer {
     private duration: number | undefined;
     private canvas: OffscreenCanvas;
     private filePort: MessagePort;
+    private chunkDuration: number;
 
     // Map of chunk index to VideoRenderer
     private renderers: Map<number, VideoRenderer>;
     // Cached chunks data
     private loadedChunks: Map<number, EncodedVideoChunk[]>;
+    // Decoder config changes within each loaded chunk (adaptive streams only)
+    private chunkConfigs: Map<number, ConfigChange[]>;
 
     // Current state
     private currentChunkIndex: number;
@@ -49,7 +59,9 @@ export default class VideoTransformer {
     private preloadThreshold: number;
     private rendering: boolean;
     private frameRenderer: GPUFrameRenderer;
+    private captions: CaptionRenderer;
     private lastRenderedTime: number;
+    private playbackRate: number;
 
     // Request ID tracking
     private requestId: number = 0;
@@ -59,28 +71,33 @@ export default class VideoTransformer {
         canvas: OffscreenCanvas,
         filePort: MessagePort,
         videoMetadata: VideoTrackData,
-        duration: number
+        duration: number,
+        chunkDuration: number = CHUNK_DURATION
     ) {
         this.canvas = canvas;
         this.filePort = filePort;
         this.videoMetadata = videoMetadata;
         this.frameRenderer = new GPUFrameRenderer(this.canvas, { filterMode: 'linear' });
+        this.captions = new CaptionRenderer();
         this.duration = duration;
+        this.chunkDuration = chunkDuration;
         this.renderers = new Map();
         this.loadedChunks = new Map();
+        this.chunkConfigs = new Map();
         this.currentChunkIndex = -1;
         this.activeRenderer = null;
         this.isPreloading = false;
         this.preloadThreshold = 5; // Seconds before chunk end to trigger preload
         this.rendering = false;
         this.lastRenderedTime = 0;
+        this.playbackRate = 1;
 
         // Set up message handler for file worker responses
         this.filePort.onmessage = this.handleFileWorkerMessage.bind(this);
     }
 
     private handleFileWorkerMessage(event: MessageEvent) {
-        const { cmd, request_id, res, error } = event.data;
+        const { cmd, request_id, res, configs, error } = event.data;
 
         if (cmd === 'chunks' && request_id) {
             const pending = this.pendingRequests.get(request_id);
@@ -88,22 +105,23 @@ export default class VideoTransformer {
                 if (error) {
                     pending.reject(new Error(error));
                 } else {
-                    pending.resolve(res);
+                    pending.resolve({ chunks: res, configs: configs ?? [] });
                 }
                 this.pendingRequests.delete(request_id);
             }
         }
     }
 
-    private requestSegment(start: number, end: number): Promise<EncodedVideoChunk[]> {
+    private requestSegment(start: number, end: number): Promise<LoadedSegment> {
         return new Promise((resolve, reject) => {
             const id = ++this.requestId;
             this.pendingRequests.set(id, { resolve, reject });
 
+            // The playhead tells adaptive streams how much is buffered ahead of it
             this.filePort.postMessage({
                 cmd: 'request-segment',
                 request_id: id,
-                data: { start, end }
+                data: { start, end, playhead: this.lastRenderedTime }
             });
         });
     }
@@ -119,7 +137,7 @@ export default class VideoTransformer {
      * Get the chunk index for a specific time
      */
     private getChunkIndexForTime(time: number): number {
-        return Math.floor(time / CHUNK_DURATION);
+        return Math.floor(time / this.chunkDuration);
     }
 
     /**
@@ -131,15 +149,16 @@ export default class VideoTransformer {
             return this.loadedChunks.get(chunkIndex) || [];
         }
 
-        const startTime = chunkIndex * CHUNK_DURATION;
-        const endTime = Math.min((chunkIndex + 1) * CHUNK_DURATION, this.duration);
+        const startTime = chunkIndex * this.chunkDuration;
+        const endTime = Math.min((chunkIndex + 1) * this.chunkDuration, this.duration);
 
         try {
             // Request chunks from file worker via MessagePort
-            const chunks = await this.requestSegment(startTime, endTime);
+            const { chunks, configs } = await this.requestSegment(startTime, endTime);
 
             // Cache the chunks
             this.loadedChunks.set(chunkIndex, chunks);
+            this.chunkConfigs.set(chunkIndex, configs);
 
             return chunks;
         } catch (error) {
@@ -169,8 +188,11 @@ export default class VideoTransformer {
             this.videoMetadata,
             chunks,
             this.canvas,
-            this.frameRenderer
+            this.frameRenderer,
+            this.captions,
+            this.chunkConfigs.get(chunkIndex)
         );
+        renderer.setPlaybackRate(this.playbackRate);
         
         // Store it in our map
         this.renderers.set(chunkIndex, renderer);
@@ -186,7 +208,7 @@ export default class VideoTransformer {
      */
     private async preloadNextChunk(chunkIndex: number) {
         if (this.isPreloading || 
-            chunkIndex * CHUNK_DURATION >= this.duration || 
+            chunkIndex * this.chunkDuration >= this.duration || 
             this.loadedChunks.has(chunkIndex)) {
             return;
         }
@@ -204,22 +226,42 @@ export default class VideoTransformer {
      */
     private checkPreloadNextChunk(currentTime: number) {
         const currentChunkIndex = this.getChunkIndexForTime(currentTime);
-        const timeInCurrentChunk = currentTime % CHUNK_DURATION;
+        const timeInCurrentChunk = currentTime % this.chunkDuration;
         
-        if (timeInCurrentChunk >= (CHUNK_DURATION - this.preloadThreshold) && 
+        if (timeInCurrentChunk >= (this.chunkDuration - this.preloadThreshold) && 
             !this.isPreloading && 
             !this.loadedChunks.has(currentChunkIndex + 1)) {
             this.preloadNextChunk(currentChunkIndex + 1);
         }
         
         // Also, if we're close to the end of the chunk, initialize the next renderer
-        if (timeInCurrentChunk >= (CHUNK_DURATION - this.preloadThreshold) && 
+        if (timeInCurrentChunk >= (this.chunkDuration - this.preloadThreshold) && 
             !this.renderers.has(currentChunkIndex + 1) &&
             this.loadedChunks.has(currentChunkIndex + 1)) {
             this.initializeChunk(currentChunkIndex + 1);
         }
     }
 
+    /**
+     * Close renderers and drop chunks more than one chunk away from the current one,
+     * so a long video (or stream, with its short chunks) doesn't stay in memory
+     */
+    private evictChunks(chunkIndex: number) {
+        for (const [index, renderer] of this.renderers) {
+            if (Math.abs(index - chunkIndex) > 1) {
+                renderer.close();
+                this.renderers.delete(index);
+            }
+        }
+
+        for (const index of this.loadedChunks.keys()) {
+            if (Math.abs(index - chunkIndex) > 1) {
+                this.loadedChunks.delete(index);
+                this.chunkConfigs.delete(index);
+            }
+        }
+    }
+
     /**
      * Get debug information about the current state
      */
@@ -240,6 +282,25 @@ export default class VideoTransformer {
         };
     }
 
+    /**
+     * Set the playback rate on all renderers
+     * The Clock still drives render(time) - renderers use the rate to
+     * decode further ahead so frames can be dropped rather than stalling
+     */
+    setPlaybackRate(rate: number) {
+        this.playbackRate = rate;
+        for (const renderer of this.renderers.values()) {
+            renderer.setPlaybackRate(rate);
+        }
+    }
+
+    /**
+     * Set the subtitle text drawn over frames from now on (null to clear)
+     */
+    setCaptions(text: string[] | null) {
+        this.captions.setText(text);
+    }
+
     /**
      * Play the video (compatibility with VideoRenderer API)
      */
@@ -308,9 +369,10 @@ export default class VideoTransformer {
         
         // Update current chunk index
         this.currentChunkIndex = chunkIndex;
+        this.evictChunks(chunkIndex);
         
         // Calculate the local time within this chunk
-        const relativeTime = time - (chunkIndex * CHUNK_DURATION);
+        const relativeTime = time - (chunkIndex * this.chunkDuration);
         
         // Seek within the chunk
         await this.activeRenderer.seek(time);
@@ -338,18 +400,50 @@ export default class VideoTransformer {
         await this.switchToChunk(chunkIndex, time);
     }
     
+    /**
+     * Show the frame with exactly this timestamp (µs), e.g. when stepping frame by frame
+     */
+    async seekToFrame(timestamp: number) {
+        const time = timestamp / 1e6;
+        const chunkIndex = this.getChunkIndexForTime(time);
+
+        const renderer = await this.initializeChunk(chunkIndex);
+        if (!renderer) {
+            throw new Error(`Failed to initialize renderer for chunk ${chunkIndex}`);
+        }
+
+        this.activeRenderer = renderer;
+        this.currentChunkIndex = chunkIndex;
+        this.lastRenderedTime = time;
+        this.evictChunks(chunkIndex);
+
+        await renderer.renderExact(timestamp);
+    }
+
+    /**
+     * Capture the frame showing at a time without touching the playback renderers
+     */
+    async captureFrame(time: number, format: CaptureFormat, quality?: number): Promise<ImageBitmap | Blob> {
+        const clampedTime = Math.max(0, Math.min(time, this.duration ?? time));
+        const chunkIndex = this.getChunkIndexForTime(clampedTime);
+        const chunks = await this.loadChunk(chunkIndex);
+
+        const frame = await decodeFrameAt(this.videoMetadata!, chunks, clampedTime, this.chunkConfigs.get(chunkIndex));
+        return exportFrame(frame, format, quality);
+    }
+
     /**
      * Clean up resources
      */
     terminate() {
         // Clean up all renderers
         for (const renderer of this.renderers.values()) {
-            // VideoRenderer doesn't have a terminate method,
-            // but we could add one if needed
+            renderer.close();
         }
         
         this.renderers.clear();
         this.loadedChunks.clear();
+        this.chunkConfigs.clear();
         this.activeRenderer = null;
     }
 }
@@ -391,14 +485,18 @@ self.onmessage = async function(event: MessageEvent) {
     case "set-track-data":
       try {
         // Receive video metadata and duration from main thread
-        const { videoMetadata, duration } = data;
+        const { videoMetadata, duration, chunkDuration, width, height } = data;
 
         if (!offscreenCanvas || !fileWorkerPort) {
           throw new Error('Worker not initialized');
         }
 
-        // Set canvas dimensions
-        if (videoMetadata.codedWidth && videoMetadata.codedHeight) {
+        // Set canvas dimensions - streams pass the largest rendition's size, so
+        // switching renditions scales the frames instead of resizing the canvas
+        if (width && height) {
+          offscreenCanvas.width = width;
+          offscreenCanvas.height = height;
+        } else if (videoMetadata.codedWidth && videoMetadata.codedHeight) {
           offscreenCanvas.width = videoMetadata.codedWidth;
           offscreenCanvas.height = videoMetadata.codedHeight;
         }
@@ -408,7 +506,8 @@ self.onmessage = async function(event: MessageEvent) {
           offscreenCanvas,
           fileWorkerPort,
           videoMetadata,
-          duration
+          duration,
+          chunkDuration
         );
 
         await transformer.initialize();
@@ -497,6 +596,97 @@ self.onmessage = async function(event: MessageEvent) {
       }
       break;
 
+    case "seek-to-frame":
+      if (!transformer) {
+        self.postMessage({
+          request_id,
+          error: "VideoManager not initialized"
+        });
+        return;
+      }
+
+      try {
+        await transformer.seekToFrame(data.timestamp);
+        self.postMessage({
+          request_id,
+          res: "seek-complete"
+        });
+      } catch (error) {
+        self.postMessage({
+          request_id,
+          error: `Seek to frame error: ${error}`
+        });
+      }
+      break;
+
+    case "capture-frame":
+      if (!transformer) {
+        self.postMessage({
+          request_id,
+          error: "VideoManager not initialized"
+        });
+        return;
+      }
+
+      try {
+        const image = await transformer.captureFrame(data.time, data.format, data.quality);
+        self.postMessage({
+          request_id,
+          res: image
+        }, { transfer: image instanceof ImageBitmap ? [image] : [] });
+      } catch (error) {
+        self.postMessage({
+          request_id,
+          error: `Capture frame error: ${error}`
+        });
+      }
+      break;
+
+    case "set-playback-rate":
+      if (!transformer) {
+        self.postMessage({
+          request_id,
+          error: "VideoManager not initialized"
+        });
+        return;
+      }
+
+      try {
+        transformer.setPlaybackRate(data.rate);
+        self.postMessage({
+          request_id,
+          res: "playback-rate-set"
+        });
+      } catch (error) {
+        self.postMessage({
+          request_id,
+          error: `Set playback rate error: ${error}`
+        });
+      }
+      break;
+
+    case "set-captions":
+      if (!transformer) {
+        self.postMessage({
+          request_id,
+          error: "VideoManager not initialized"
+        });
+        return;
+      }
+
+      try {
+        transformer.setCaptions(data.text);
+        self.postMessage({
+          request_id,
+          res: "captions-set"
+        });
+      } catch (error) {
+        self.postMessage({
+          request_id,
+          error: `Set captions error: ${error}`
+        });
+      }
+      break;
 
     case "terminate":
       if (transformer) {
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { AbrController } from './abr';
+import type { Rendition } from './manifest';
+
+const renditions: Rendition[] = [500_000, 1_000_000, 3_000_000].map((bandwidth, i) => ({
+  id: `video-${i}`,
+  bandwidth,
+  init: { url: `https://example.com/${i}/init.mp4` },
+  segments: [],
+}));
+
+describe('AbrController.choose', () => {
+  it('never switches up while the buffer is low', () => {
+    const abr = new AbrController(renditions);
+
+    expect(abr.choose(100_000_000, 2)).toBe(0);
+    expect(abr.getCurrent()).toBe(renditions[0]);
+  });
+
+  it('keeps more headroom with less buffer', () => {
+    // 3.4 Mbps: 0.7 of it fits 1 Mbps, 0.9 of it fits 3 Mbps
+    expect(new AbrController(renditions).choose(3_400_000, 10)).toBe(1);
+    expect(new AbrController(renditions).choose(3_400_000, 20)).toBe(2);
+  });
+
+  it('switches down straight away when the buffer is low', () => {
+    const abr = new AbrController(renditions);
+    abr.choose(10_000_000, 20);
+
+    // Half of 1.5 Mbps only fits the lowest rendition
+    expect(abr.choose(1_500_000, 2)).toBe(0);
+  });
+
+  it('stays on a rendition that still fits while the buffer is low', () => {
+    const abr = new AbrController(renditions);
+    abr.choose(3_000_000, 10);
+
+    expect(abr.choose(10_000_000, 2)).toBe(1);
+  });
+
+  it('falls back to the lowest rendition when none fits', () => {
+    const abr = new AbrController(renditions);
+    abr.choose(10_000_000, 20);
+
+    expect(abr.choose(100_000, 20)).toBe(0);
+  });
+});
@@ -0,0 +1,52 @@
+import type { Rendition } from './manifest';
+
+// Seconds of buffered video below which the player is at risk of stalling
+const LOW_BUFFER = 5;
+// Seconds of buffered video above which a short dip in throughput can be absorbed
+const HIGH_BUFFER = 15;
+
+/**
+ * AbrController - picks the video rendition for the next segment
+ *
+ * A rendition is chosen if its advertised bandwidth fits in a fraction of the measured
+ * throughput. That fraction depends on how much video is buffered ahead of the
+ * playhead: little buffer means playing safe, a lot means a higher rendition can be
+ * tried since a slow download has time to finish. While the buffer is low it never
+ * switches up, so one fast download can't cause a stall.
+ */
+export class AbrController {
+  private renditions: Rendition[];
+  private current = 0;
+
+  /**
+   * @param renditions - Lowest bandwidth first
+   */
+  constructor(renditions: Rendition[]) {
+    this.renditions = renditions;
+  }
+
+  /**
+   * @param throughput - Bits per second
+   * @param bufferLevel - Seconds of video ahead of the playhead
+   * @returns Index into the renditions
+   */
+  choose(throughput: number, bufferLevel: number): number {
+    const safety = bufferLevel < LOW_BUFFER ? 0.5 : bufferLevel > HIGH_BUFFER ? 0.9 : 0.7;
+
+    let next = 0;
+    for (let i = 0; i < this.renditions.length; i++) {
+      if (this.renditions[i].bandwidth <= throughput * safety) next = i;
+    }
+
+    if (bufferLevel < LOW_BUFFER) {
+      next = Math.min(next, this.current);
+    }
+
+    this.current = next;
+    return next;
+  }
+
+  getCurrent(): Rendition {
+    return this.renditions[this.current];
+  }
+}
@@ -0,0 +1,209 @@
+import { describe, expect, it } from 'vitest';
+import type { RangeFetch } from '../http-file';
+import { parseDash, parseSidx } from './dash';
+
+const URL = 'https://cdn.example.com/stream/manifest.mpd';
+
+const noFetch: RangeFetch = async () => {
+  throw new Error('Unexpected request');
+};
+
+const mpd = (period: string, attributes = 'type="static" mediaPresentationDuration="PT10S"') =>
+  `<?xml version="1.0"?>\n<MPD xmlns="urn:mpeg:dash:schema:mpd:2011" ${attributes}>\n<Period>${period}</Period>\n</MPD>`;
+
+/**
+ * A sidx box with one reference per [size, duration]
+ */
+function sidx(version: 0 | 1, timescale: number, earliestTime: number, firstOffset: number, references: [number, number][], nested = false): DataView {
+  const header = version === 0 ? 32 : 40;
+  const view = new DataView(new ArrayBuffer(header + references.length * 12));
+
+  view.setUint32(0, view.byteLength);
+  [...'sidx'].forEach((char, i) => view.setUint8(4 + i, char.charCodeAt(0)));
+  view.setUint8(8, version);
+  view.setUint32(12, 1);   // reference_ID
+  view.setUint32(16, timescale);
+
+  if (version === 0) {
+    view.setUint32(20, earliestTime);
+    view.setUint32(24, firstOffset);
+  } else {
+    view.setBigUint64(20, BigInt(earliestTime));
+    view.setBigUint64(28, BigInt(firstOffset));
+  }
+  view.setUint16(header - 2, references.length);
+
+  references.forEach(([size, duration], i) => {
+    const cursor = header + i * 12;
+    view.setUint32(cursor, (nested ? 0x80000000 : 0) | size);
+    view.setUint32(cursor + 4, duration);
+    view.setUint32(cursor + 8, 0x90000000);   // Starts with a SAP
+  });
+
+  return view;
+}
+
+describe('parseDash', () => {
+  it('fills $Number$ templates, with a shorter last segment', async () => {
+    const manifest = await parseDash(URL, mpd(`
+      <AdaptationSet contentType="video" mimeType="video/mp4">
+        <SegmentTemplate timescale="1000" duration="4000" startNumber="0"
+          initialization="$RepresentationID$/init.mp4" media="$RepresentationID$/$Bandwidth$/seg-$Number%05d$.m4s"/>
+        <Representation id="720p" bandwidth="3000000" codecs="avc1.64001f" width="1280" height="720"/>
+      </AdaptationSet>`), noFetch);
+
+    const [rendition] = manifest.video;
+    expect(manifest.duration).toBe(10);
+    expect(rendition).toMatchObject({ id: '720p', bandwidth: 3_000_000, codecs: 'avc1.64001f', width: 1280, height: 720 });
+    expect(rendition.init.url).toBe('https://cdn.example.com/stream/720p/init.mp4');
+    expect(rendition.segments).toEqual([
+      { url: 'https://cdn.example.com/stream/720p/3000000/seg-00000.m4s', start: 0, duration: 4 },
+      { url: 'https://cdn.example.com/stream/720p/3000000/seg-00001.m4s', start: 4, duration: 4 },
+      { url: 'https://cdn.example.com/stream/720p/3000000/seg-00002.m4s', start: 8, duration: 2 },
+    ]);
+  });
+
+  it('expands a SegmentTimeline, including r="-1" up to the next S and to the end of the Period', async () => {
+    const manifest = await parseDash(URL, mpd(`
+      <AdaptationSet mimeType="video/mp4">
+        <SegmentTemplate timescale="10" presentationTimeOffset="100" initialization="init.mp4" media="$Time$.m4s">
+          <SegmentTimeline>
+            <S t="100" d="20" r="1"/>
+            <S d="10" r="-1"/>
+            <S t="170" d="20" r="-1"/>
+          </SegmentTimeline>
+        </SegmentTemplate>
+        <Representation id="v" bandwidth="1000000"/>
+      </AdaptationSet>`, 'type="static" mediaPresentationDuration="PT11S"'), noFetch);
+
+    const segments = manifest.video[0].segments;
+    expect(segments.map((segment) => segment.url.split('/').pop())).toEqual([
+      '100.m4s', '120.m4s', '140.m4s', '150.m4s', '160.m4s', '170.m4s', '190.m4s',
+    ]);
+    expect(segments.map((segment) => [segment.start, segment.duration])).toEqual([
+      [0, 2], [2, 2], [4, 1], [5, 1], [6, 1], [7, 2], [9, 2],
+    ]);
+  });
+
+  it('reads the init segment from an <Initialization> element of the template', async () => {
+    const manifest = await parseDash(URL, mpd(`
+      <AdaptationSet mimeType="video/mp4">
+        <SegmentTemplate duration="5" media="seg-$Number$.m4s">
+          <Initialization sourceURL="init/video.mp4" range="0-799"/>
+        </SegmentTemplate>
+        <Representation id="a" bandwidth="1000000"/>
+        <Representation id="b" bandwidth="2000000"><SegmentTemplate duration="5" media="b-$Number$.m4s"/></Representation>
+      </AdaptationSet>`), noFetch);
+
+    for (const rendition of manifest.video) {
+      expect(rendition.init).toEqual({ url: 'https://cdn.example.com/stream/init/video.mp4', range: { start: 0, end: 800 } });
+    }
+    expect(manifest.video[1].segments[1].url).toBe('https://cdn.example.com/stream/b-2.m4s');
+  });
+
+  it('reads SegmentList byte ranges and inherits BaseURLs', async () => {
+    const manifest = await parseDash(URL, mpd(`
+      <BaseURL>media/</BaseURL>
+      <AdaptationSet mimeType="audio/mp4" lang="en" id="main-audio">
+        <Role schemeIdUri="urn:mpeg:dash:role:2011" value="main"/>
+        <Label>English &amp; commentary</Label>
+        <Representation id="aac" bandwidth="128000">
+          <BaseURL>audio.mp4</BaseURL>
+          <SegmentList timescale="1000" duration="5000">
+            <Initialization range="0-599"/>
+            <SegmentURL mediaRange="600-50599"/>
+            <SegmentURL mediaRange="50600-99999"/>
+          </SegmentList>
+        </Representation>
+      </AdaptationSet>`), noFetch);
+
+    const [rendition] = manifest.audio;
+    expect(rendition).toMatchObject({ track: 'main-audio', language: 'en', label: 'English & commentary', isDefault: true });
+    expect(rendition.init).toEqual({ url: 'https://cdn.example.com/stream/media/audio.mp4', range: { start: 0, end: 600 } });
+    expect(rendition.segments).toEqual([
+      { url: 'https://cdn.example.com/stream/media/audio.mp4', range: { start: 600, end: 50_600 }, start: 0, duration: 5 },
+      { url: 'https://cdn.example.com/stream/media/audio.mp4', range: { start: 50_600, end: 100_000 }, start: 5, duration: 5 },
+    ]);
+  });
+
+  it('fetches the sidx of a SegmentBase', async () => {
+    const index = sidx(0, 1000, 0, 0, [[40_000, 4000], [30_000, 4000]]);
+    const requests: string[] = [];
+    const fetchFn: RangeFetch = async (url, init) => {
+      requests.push(`${url} ${init.headers.Range}`);
+      return new Response(index.buffer as ArrayBuffer, { status: 206 });
+    };
+
+    const manifest = await parseDash(URL, mpd(`
+      <AdaptationSet mimeType="video/mp4">
+        <Representation id="v" bandwidth="1000000">
+          <BaseURL>video.mp4</BaseURL>
+          <SegmentBase indexRange="900-${900 + index.byteLength - 1}"/>
+        </Representation>
+      </AdaptationSet>`), fetchFn);
+
+    const [rendition] = manifest.video;
+    const firstMoof = 900 + index.byteLength;
+    expect(requests).toEqual([`https://cdn.example.com/stream/video.mp4 bytes=900-${firstMoof - 1}`]);
+    expect(rendition.init).toEqual({ url: 'https://cdn.example.com/stream/video.mp4', range: { start: 0, end: 900 } });
+    expect(rendition.segments.map((segment) => segment.range)).toEqual([
+      { start: firstMoof, end: firstMoof + 40_000 },
+      { start: firstMoof + 40_000, end: firstMoof + 70_000 },
+    ]);
+  });
+
+  it('skips representations it cannot play', async () => {
+    const manifest = await parseDash(URL, mpd(`
+      <AdaptationSet mimeType="text/vtt"><Representation id="subs" bandwidth="100"/></AdaptationSet>
+      <AdaptationSet mimeType="video/webm"><Representation id="vp9" bandwidth="100"/></AdaptationSet>
+      <AdaptationSet mimeType="audio/mp4">
+        <SegmentTemplate duration="5" initialization="init.mp4" media="$Number$.m4s"/>
+        <Representation id="aac" bandwidth="100"/>
+      </AdaptationSet>`), noFetch);
+
+    expect(manifest.video).toEqual([]);
+    expect(manifest.audio.map((rendition) => rendition.id)).toEqual(['aac']);
+  });
+
+  it('reads ISO 8601 durations from the Period before the MPD', async () => {
+    const text = mpd('<AdaptationSet/>').replace('<Period>', '<Period duration="PT1H2M3.5S">');
+    expect((await parseDash(URL, text, noFetch)).duration).toBe(3723.5);
+  });
+
+  it('rejects what it cannot play', async () => {
+    await expect(parseDash(URL, '<Playlist/>', noFetch)).rejects.toThrow('Not a DASH manifest');
+    await expect(parseDash(URL, mpd('', 'type="dynamic"'), noFetch)).rejects.toThrow('Live DASH');
+    await expect(parseDash(URL, '<MPD type="static"/>', noFetch)).rejects.toThrow('No Period');
+    await expect(parseDash(URL, mpd('<AdaptationSet mimeType="video/mp4"><Representation id="v"/></AdaptationSet>'), noFetch))
+      .rejects.toThrow('Representation v has no segment information');
+  });
+});
+
+describe('parseSidx', () => {
+  it('lays the references out after the sidx, from first_offset', () => {
+    const view = sidx(0, 90_000, 180_000, 100, [[1000, 180_000], [2000, 90_000]]);
+    const segments = parseSidx(view, 500, 90_000, 'video.mp4');
+    const firstByte = 500 + view.byteLength + 100;
+
+    expect(segments).toEqual([
+      { url: 'video.mp4', range: { start: firstByte, end: firstByte + 1000 }, start: 1, duration: 2 },
+      { url: 'video.mp4', range: { start: firstByte + 1000, end: firstByte + 3000 }, start: 3, duration: 1 },
+    ]);
+  });
+
+  it('reads 64-bit times and offsets from a version 1 box', () => {
+    const view = sidx(1, 1000, 2 ** 33, 0, [[1000, 2000]]);
+    const [segment] = parseSidx(view, 0, 0, 'video.mp4');
+
+    expect(segment.start).toBe(2 ** 33 / 1000);
+    expect(segment.range).toEqual({ start: view.byteLength, end: view.byteLength + 1000 });
+  });
+
+  it('rejects nested indexes and other boxes', () => {
+    expect(() => parseSidx(sidx(0, 1000, 0, 0, [[1000, 2000]], true), 0, 0, 'video.mp4')).toThrow('Nested sidx');
+
+    const view = sidx(0, 1000, 0, 0, []);
+    view.setUint8(4, 'm'.charCodeAt(0));
+    expect(() => parseSidx(view, 0, 0, 'video.mp4')).toThrow('No sidx box');
+  });
+});
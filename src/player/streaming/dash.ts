@@ -0,0 +1,326 @@
+import type { RangeFetch } from '../http-file';
+import { resolveUrl } from './manifest';
+import type { MediaSegment, Rendition, SegmentRef, StreamManifest } from './manifest';
+import { XmlElement, getChild, getChildren, parseXml } from './xml';
+
+/**
+ * SegmentTemplate / SegmentList / SegmentBase attributes, after inheriting from the
+ * Period and AdaptationSet levels
+ */
+interface SegmentInfo {
+  template?: Record<string, string>;
+  timeline?: XmlElement;
+  initialization?: XmlElement;   // <Initialization> child of the SegmentTemplate, instead of its attribute
+  list?: XmlElement;
+  base?: XmlElement;
+}
+
+/**
+ * Parse a static (on-demand) DASH MPD
+ *
+ * Only the first Period is played. Representations with MP4 segments are supported
+ * with any of the three addressing schemes: SegmentTemplate (with $Number$ or a
+ * SegmentTimeline), SegmentList, or SegmentBase - whose sidx is fetched here.
+ */
+export async function parseDash(url: string, text: string, fetchFn: RangeFetch): Promise<StreamManifest> {
+  const mpd = parseXml(text);
+  if (mpd.name !== 'MPD') {
+    throw new Error(`Not a DASH manifest: ${url}`);
+  }
+  if (mpd.attributes.type === 'dynamic') {
+    throw new Error(`Live DASH streams aren't supported: ${url}`);
+  }
+
+  const period = getChild(mpd, 'Period');
+  if (!period) {
+    throw new Error(`No Period in ${url}`);
+  }
+
+  const duration = parseDuration(period.attributes.duration ?? mpd.attributes.mediaPresentationDuration);
+  const periodBase = getBaseUrl(period, getBaseUrl(mpd, url));
+
+  const video: Rendition[] = [];
+  const audio: Rendition[] = [];
+
+  for (const [setIndex, adaptationSet] of getChildren(period, 'AdaptationSet').entries()) {
+    const setBase = getBaseUrl(adaptationSet, periodBase);
+    const setSegments = getSegmentInfo(adaptationSet, getSegmentInfo(period, {}));
+
+    for (const representation of getChildren(adaptationSet, 'Representation')) {
+      const attributes = { ...adaptationSet.attributes, ...representation.attributes };
+      const type = getContentType(attributes);
+      if (!type) continue;
+
+      const base = getBaseUrl(representation, setBase);
+      const segments = getSegmentInfo(representation, setSegments);
+
+      const rendition: Rendition = {
+        id: attributes.id ?? `${type}-${type === 'video' ? video.length : audio.length}`,
+        bandwidth: Number(attributes.bandwidth ?? 0),
+        codecs: attributes.codecs,
+        width: attributes.width ? Number(attributes.width) : undefined,
+        height: attributes.height ? Number(attributes.height) : undefined,
+        ...await getSegments(segments, base, attributes, duration, fetchFn),
+      };
+
+      // Each audio AdaptationSet is a track (language, commentary) - its Representations are bitrates
+      if (type === 'audio') {
+        rendition.track = adaptationSet.attributes.id ?? `audio-${setIndex}`;
+        rendition.language = attributes.lang;
+        rendition.label = getChild(adaptationSet, 'Label')?.text.trim() || undefined;
+        rendition.isDefault = getChildren(adaptationSet, 'Role').some((role) => role.attributes.value === 'main');
+      }
+
+      (type === 'video' ? video : audio).push(rendition);
+    }
+  }
+
+  return { type: 'dash', duration, video, audio };
+}
+
+/**
+ * video / audio for MP4 representations, null for anything else (text, WebM, ...)
+ */
+function getContentType(attributes: Record<string, string>): 'video' | 'audio' | null {
+  const mimeType = attributes.mimeType ?? '';
+  if (mimeType && !mimeType.endsWith('/mp4')) return null;
+
+  const type = attributes.contentType ?? mimeType.split('/')[0];
+  return type === 'video' || type === 'audio' ? type : null;
+}
+
+function getBaseUrl(element: XmlElement, parentBase: string): string {
+  const baseUrl = getChild(element, 'BaseURL')?.text.trim();
+  return baseUrl ? resolveUrl(baseUrl, parentBase) : parentBase;
+}
+
+/**
+ * Segment addressing of an element, falling back to what its parent declared
+ */
+function getSegmentInfo(element: XmlElement, parent: SegmentInfo): SegmentInfo {
+  const template = getChild(element, 'SegmentTemplate');
+  const list = getChild(element, 'SegmentList');
+  const base = getChild(element, 'SegmentBase');
+
+  return {
+    template: template ? { ...parent.template, ...template.attributes } : parent.template,
+    timeline: getChild(template, 'SegmentTimeline') ?? parent.timeline,
+    initialization: getChild(template, 'Initialization') ?? parent.initialization,
+    list: list ?? parent.list,
+    base: base ?? parent.base,
+  };
+}
+
+async function getSegments(
+  info: SegmentInfo,
+  baseUrl: string,
+  attributes: Record<string, string>,
+  duration: number,
+  fetchFn: RangeFetch
+): Promise<Pick<Rendition, 'init' | 'segments'>> {
+  if (info.template) {
+    return getTemplateSegments(info.template, info.timeline, info.initialization, baseUrl, attributes, duration);
+  }
+  if (info.list) {
+    return getListSegments(info.list, baseUrl);
+  }
+  if (info.base) {
+    return getIndexedSegments(info.base, baseUrl, fetchFn);
+  }
+  throw new Error(`Representation ${attributes.id} has no segment information`);
+}
+
+function getTemplateSegments(
+  template: Record<string, string>,
+  timeline: XmlElement | undefined,
+  initialization: XmlElement | undefined,
+  baseUrl: string,
+  attributes: Record<string, string>,
+  duration: number
+): Pick<Rendition, 'init' | 'segments'> {
+  const timescale = Number(template.timescale ?? 1);
+  const offset = Number(template.presentationTimeOffset ?? 0);
+  const startNumber = Number(template.startNumber ?? 1);
+
+  const fill = (pattern: string, number: number, time: number) => resolveUrl(
+    pattern.replace(/\$(RepresentationID|Number|Time|Bandwidth)(?:%0(\d+)d)?\$|\$\$/g, (token, name, width) => {
+      if (!name) return '$';
+
+      const value = name === 'RepresentationID' ? attributes.id
+        : name === 'Bandwidth' ? attributes.bandwidth
+        : String(name === 'Number' ? number : time);
+      return width ? value.padStart(Number(width), '0') : value;
+    }),
+    baseUrl
+  );
+
+  const segments: MediaSegment[] = [];
+
+  if (timeline) {
+    // <S t d r> - r repeats, -1 meaning until the next S or the end of the Period
+    let time = 0;
+    const entries = getChildren(timeline, 'S');
+
+    entries.forEach((entry, i) => {
+      const d = Number(entry.attributes.d);
+      if (entry.attributes.t !== undefined) time = Number(entry.attributes.t);
+
+      let repeat = Number(entry.attributes.r ?? 0);
+      if (repeat < 0) {
+        const next = entries[i + 1]?.attributes.t;
+        const end = next !== undefined ? Number(next) : offset + duration * timescale;
+        repeat = Math.ceil((end - time) / d) - 1;
+      }
+
+      for (let r = 0; r <= repeat; r++) {
+        segments.push({
+          url: fill(template.media, startNumber + segments.length, time),
+          start: (time - offset) / timescale,
+          duration: d / timescale,
+        });
+        time += d;
+      }
+    });
+  } else {
+    const segmentDuration = Number(template.duration) / timescale;
+    const count = Math.ceil(duration / segmentDuration);
+
+    for (let i = 0; i < count; i++) {
+      segments.push({
+        url: fill(template.media, startNumber + i, offset + i * Number(template.duration)),
+        start: i * segmentDuration,
+        duration: Math.min(segmentDuration, duration - i * segmentDuration),
+      });
+    }
+  }
+
+  // The attribute is a template - an <Initialization> element's sourceURL is a plain URL,
+  // and without one the init segment is a byte range of the BaseURL
+  const init = template.initialization !== undefined
+    ? { url: fill(template.initialization, startNumber, 0) }
+    : {
+      url: resolveUrl(initialization?.attributes.sourceURL ?? '', baseUrl),
+      range: parseRange(initialization?.attributes.range),
+    };
+
+  return { init, segments };
+}
+
+function getListSegments(list: XmlElement, baseUrl: string): Pick<Rendition, 'init' | 'segments'> {
+  const timescale = Number(list.attributes.timescale ?? 1);
+  const segmentDuration = Number(list.attributes.duration) / timescale;
+  const initialization = getChild(list, 'Initialization');
+
+  return {
+    init: {
+      url: resolveUrl(initialization?.attributes.sourceURL ?? '', baseUrl),
+      range: parseRange(initialization?.attributes.range),
+    },
+    segments: getChildren(list, 'SegmentURL').map((segment, i) => ({
+      url: resolveUrl(segment.attributes.media ?? '', baseUrl),
+      range: parseRange(segment.attributes.mediaRange),
+      start: i * segmentDuration,
+      duration: segmentDuration,
+    })),
+  };
+}
+
+/**
+ * SegmentBase - one file, with the segments listed in the sidx at indexRange
+ */
+async function getIndexedSegments(base: XmlElement, url: string, fetchFn: RangeFetch): Promise<Pick<Rendition, 'init' | 'segments'>> {
+  const indexRange = parseRange(base.attributes.indexRange);
+  if (!indexRange) {
+    throw new Error(`SegmentBase without an indexRange isn't supported: ${url}`);
+  }
+
+  const response = await fetchFn(url, { headers: { Range: `bytes=${indexRange.start}-${indexRange.end - 1}` } });
+  if (response.status !== 206) {
+    throw new Error(`Range request for ${url} failed with status ${response.status}`);
+  }
+
+  const offset = Number(base.attributes.presentationTimeOffset ?? 0);
+  const segments = parseSidx(new DataView(await response.arrayBuffer()), indexRange.start, offset, url);
+
+  // Without an explicit Initialization, the init segment is everything before the sidx
+  const initRange = parseRange(getChild(base, 'Initialization')?.attributes.range) ?? { start: 0, end: indexRange.start };
+
+  return { init: { url, range: initRange }, segments };
+}
+
+/**
+ * Segment byte ranges and times from a sidx box
+ * @param sidxOffset - Where the sidx starts in the file - references are relative to its end
+ */
+export function parseSidx(view: DataView, sidxOffset: number, presentationTimeOffset: number, url: string): MediaSegment[] {
+  const type = String.fromCharCode(view.getUint8(4), view.getUint8(5), view.getUint8(6), view.getUint8(7));
+  if (type !== 'sidx') {
+    throw new Error(`No sidx box at the indexRange of ${url}`);
+  }
+
+  const version = view.getUint8(8);
+  const timescale = view.getUint32(16);
+  let cursor = 20;
+
+  let time: number;
+  let offset: number;
+  if (version === 0) {
+    time = view.getUint32(cursor);
+    offset = view.getUint32(cursor + 4);
+    cursor += 8;
+  } else {
+    time = Number(view.getBigUint64(cursor));
+    offset = Number(view.getBigUint64(cursor + 8));
+    cursor += 16;
+  }
+
+  const referenceCount = view.getUint16(cursor + 2);
+  cursor += 4;
+
+  let start = sidxOffset + view.getUint32(0) + offset;
+  const segments: MediaSegment[] = [];
+
+  for (let i = 0; i < referenceCount; i++, cursor += 12) {
+    const reference = view.getUint32(cursor);
+    const size = reference & 0x7fffffff;
+    const duration = view.getUint32(cursor + 4);
+
+    // Hierarchical sidx (references to other sidx boxes) isn't used for on-demand profiles
+    if (reference >>> 31) {
+      throw new Error(`Nested sidx boxes aren't supported: ${url}`);
+    }
+
+    segments.push({
+      url,
+      range: { start, end: start + size },
+      start: (time - presentationTimeOffset) / timescale,
+      duration: duration / timescale,
+    });
+
+    start += size;
+    time += duration;
+  }
+
+  return segments;
+}
+
+/**
+ * "start-end" (inclusive) → an end-exclusive range
+ */
+function parseRange(value: string | undefined): SegmentRef['range'] {
+  if (!value) return undefined;
+
+  const [start, end] = value.split('-').map(Number);
+  return { start, end: end + 1 };
+}
+
+/**
+ * ISO 8601 duration (PT1H2M3.5S) → seconds
+ */
+function parseDuration(value: string | undefined): number {
+  const match = value?.match(/^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/);
+  if (!match) return 0;
+
+  const [, days, hours, minutes, seconds] = match.map((part) => Number(part ?? 0));
+  return days * 86400 + hours * 3600 + minutes * 60 + seconds;
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import type { RangeFetch } from '../http-file';
+import { parseHls } from './hls';
+
+const BASE = 'https://cdn.example.com/stream/';
+
+/**
+ * A fetch that serves playlists from memory
+ */
+function serve(files: Record<string, string>): RangeFetch {
+  return async (url) => url in files
+    ? new Response(files[url], { status: 200 })
+    : new Response('', { status: 404 });
+}
+
+const mediaPlaylist = (name: string) => [
+  '#EXTM3U',
+  '#EXT-X-VERSION:7',
+  '#EXT-X-PLAYLIST-TYPE:VOD',
+  `#EXT-X-MAP:URI="${name}/init.mp4"`,
+  '#EXTINF:4.0,',
+  `${name}/1.m4s`,
+  '#EXTINF:2.5,',
+  `${name}/2.m4s`,
+  '#EXT-X-ENDLIST',
+].join('\n');
+
+describe('parseHls', () => {
+  it('reads variants, quoted attributes and the audio group', async () => {
+    const master = [
+      '#EXTM3U',
+      '#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aac",NAME="English",LANGUAGE="en",DEFAULT=YES,URI="audio/en.m3u8"',
+      '#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aac",NAME="Deutsch",LANGUAGE="de",DEFAULT=NO,URI="audio/de.m3u8"',
+      '#EXT-X-MEDIA:TYPE=SUBTITLES,GROUP-ID="subs",NAME="English",URI="subs/en.m3u8"',
+      '#EXT-X-STREAM-INF:BANDWIDTH=2500000,AVERAGE-BANDWIDTH=2000000,CODECS="avc1.64001f,mp4a.40.2",RESOLUTION=1280x720,AUDIO="aac"',
+      '720p.m3u8',
+      '#EXT-X-STREAM-INF:BANDWIDTH=800000,CODECS="avc1.4d401e,mp4a.40.2",RESOLUTION=640x360,AUDIO="aac"',
+      '360p.m3u8',
+    ].join('\n');
+
+    const manifest = await parseHls(`${BASE}master.m3u8`, master, serve({
+      [`${BASE}720p.m3u8`]: mediaPlaylist('720p'),
+      [`${BASE}360p.m3u8`]: mediaPlaylist('360p'),
+      [`${BASE}audio/en.m3u8`]: mediaPlaylist('en'),
+      [`${BASE}audio/de.m3u8`]: mediaPlaylist('de'),
+    }));
+
+    expect(manifest.type).toBe('hls');
+    expect(manifest.duration).toBe(6.5);
+    expect(manifest.video.map(({ id, bandwidth, codecs, width, height }) => ({ id, bandwidth, codecs, width, height }))).toEqual([
+      { id: 'video-0', bandwidth: 2_500_000, codecs: 'avc1.64001f,mp4a.40.2', width: 1280, height: 720 },
+      { id: 'video-1', bandwidth: 800_000, codecs: 'avc1.4d401e,mp4a.40.2', width: 640, height: 360 },
+    ]);
+    expect(manifest.audio.map(({ track, language, label, isDefault }) => ({ track, language, label, isDefault }))).toEqual([
+      { track: 'English', language: 'en', label: 'English', isDefault: true },
+      { track: 'Deutsch', language: 'de', label: 'Deutsch', isDefault: false },
+    ]);
+    expect(manifest.audio[1].init.url).toBe(`${BASE}audio/de/init.mp4`);
+  });
+
+  it('treats variants without a video codec as audio', async () => {
+    const master = [
+      '#EXTM3U',
+      '#EXT-X-STREAM-INF:BANDWIDTH=1000000,CODECS="hvc1.1.6.L93.B0"',
+      'video.m3u8',
+      '#EXT-X-STREAM-INF:BANDWIDTH=128000,CODECS="mp4a.40.2"',
+      'audio.m3u8',
+    ].join('\n');
+
+    const manifest = await parseHls(`${BASE}master.m3u8`, master, serve({
+      [`${BASE}video.m3u8`]: mediaPlaylist('video'),
+      [`${BASE}audio.m3u8`]: mediaPlaylist('audio'),
+    }));
+
+    expect(manifest.video.map((rendition) => rendition.bandwidth)).toEqual([1_000_000]);
+    expect(manifest.audio.map((rendition) => rendition.bandwidth)).toEqual([128_000]);
+  });
+
+  it('uses the variants for audio when it is muxed', async () => {
+    const master = '#EXTM3U\n#EXT-X-STREAM-INF:BANDWIDTH=1000000\nvideo.m3u8\n';
+    const manifest = await parseHls(`${BASE}master.m3u8`, master, serve({ [`${BASE}video.m3u8`]: mediaPlaylist('video') }));
+
+    expect(manifest.audio).toBe(manifest.video);
+  });
+
+  it('plays a media playlist on its own as one muxed rendition', async () => {
+    const manifest = await parseHls(`${BASE}media.m3u8`, mediaPlaylist('media'), serve({}));
+
+    expect(manifest.video).toHaveLength(1);
+    expect(manifest.audio).toBe(manifest.video);
+    expect(manifest.video[0].segments).toEqual([
+      { url: `${BASE}media/1.m4s`, range: undefined, start: 0, duration: 4 },
+      { url: `${BASE}media/2.m4s`, range: undefined, start: 4, duration: 2.5 },
+    ]);
+  });
+
+  it('reads byte ranges, following on from the previous one without an offset', async () => {
+    const playlist = [
+      '#EXTM3U',
+      '#EXT-X-MAP:URI="video.mp4",BYTERANGE="720@0"',
+      '#EXTINF:4,',
+      '#EXT-X-BYTERANGE:10000@720',
+      'video.mp4',
+      '#EXTINF:4,',
+      '#EXT-X-BYTERANGE:20000',
+      'video.mp4',
+      '#EXTINF:2,',
+      '#EXT-X-BYTERANGE:5000@50000',
+      'video.mp4',
+      '#EXT-X-ENDLIST',
+    ].join('\r\n');
+
+    const [rendition] = (await parseHls(`${BASE}media.m3u8`, playlist, serve({}))).video;
+
+    expect(rendition.init).toEqual({ url: `${BASE}video.mp4`, range: { start: 0, end: 720 } });
+    expect(rendition.segments.map((segment) => segment.range)).toEqual([
+      { start: 720, end: 10_720 },
+      { start: 10_720, end: 30_720 },
+      { start: 50_000, end: 55_000 },
+    ]);
+    expect(rendition.segments.map((segment) => segment.start)).toEqual([0, 4, 8]);
+  });
+
+  it('allows EXT-X-KEY with METHOD=NONE', async () => {
+    const playlist = mediaPlaylist('media').replace('#EXTINF', '#EXT-X-KEY:METHOD=NONE\n#EXTINF');
+    await expect(parseHls(`${BASE}media.m3u8`, playlist, serve({}))).resolves.toBeDefined();
+  });
+
+  it('rejects what it cannot play', async () => {
+    const url = `${BASE}media.m3u8`;
+
+    await expect(parseHls(url, '<MPD/>', serve({}))).rejects.toThrow('Not an HLS playlist');
+    await expect(parseHls(url, mediaPlaylist('media').replace('#EXT-X-ENDLIST', ''), serve({}))).rejects.toThrow('Live HLS');
+    await expect(parseHls(url, mediaPlaylist('media').replace(/#EXT-X-MAP.*\n/, ''), serve({}))).rejects.toThrow('Only fMP4');
+    await expect(parseHls(
+      url,
+      mediaPlaylist('media').replace('#EXTINF', '#EXT-X-KEY:METHOD=AES-128,URI="key.bin"\n#EXTINF'),
+      serve({})
+    )).rejects.toThrow('Encrypted');
+  });
+});
@@ -0,0 +1,172 @@
+import type { RangeFetch } from '../http-file';
+import { fetchText, resolveUrl } from './manifest';
+import type { MediaSegment, Rendition, SegmentRef, StreamManifest } from './manifest';
+
+// Codec prefixes that mean a variant carries video (audio-only variants only list e.g. mp4a / opus)
+const VIDEO_CODECS = /^(avc1|avc3|hvc1|hev1|vp08|vp09|av01|dvh1|dvhe)/;
+
+interface Variant {
+  uri: string;
+  attributes: Record<string, string>;
+}
+
+/**
+ * Parse an HLS multivariant (master) playlist, or a single media playlist
+ *
+ * Variants become video renditions. Audio comes from the EXT-X-MEDIA renditions of
+ * the first audio group - one track each, e.g. per language - or, when the variants
+ * have muxed audio, from the variants themselves.
+ */
+export async function parseHls(url: string, text: string, fetchFn: RangeFetch): Promise<StreamManifest> {
+  const lines = getLines(text, url);
+
+  // A media playlist on its own is a single rendition, which may hold both tracks
+  if (!lines.some((line) => line.startsWith('#EXT-X-STREAM-INF'))) {
+    const renditions = [{ id: 'video-0', bandwidth: 0, ...parseMediaPlaylist(url, text) }];
+    return { type: 'hls', duration: getDuration(renditions[0]), video: renditions, audio: renditions };
+  }
+
+  const variants: Variant[] = [];
+  const audioMedia: Record<string, string>[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    if (lines[i].startsWith('#EXT-X-STREAM-INF:')) {
+      const uri = lines.slice(i + 1).find((line) => !line.startsWith('#'));
+      if (uri) variants.push({ uri, attributes: parseAttributes(lines[i]) });
+    } else if (lines[i].startsWith('#EXT-X-MEDIA:')) {
+      const attributes = parseAttributes(lines[i]);
+      if (attributes.TYPE === 'AUDIO' && attributes.URI) audioMedia.push(attributes);
+    }
+  }
+
+  const loadRendition = async (id: string, uri: string, attributes: Record<string, string>): Promise<Rendition> => {
+    const playlistUrl = resolveUrl(uri, url);
+    const [width, height] = (attributes.RESOLUTION ?? '').split('x').map(Number);
+
+    return {
+      id,
+      bandwidth: Number(attributes.BANDWIDTH ?? 0),
+      codecs: attributes.CODECS,
+      width: width || undefined,
+      height: height || undefined,
+      ...parseMediaPlaylist(playlistUrl, await fetchText(playlistUrl, fetchFn)),
+    };
+  };
+
+  const isVideo = (variant: Variant) =>
+    !variant.attributes.CODECS || variant.attributes.CODECS.split(',').some((codec) => VIDEO_CODECS.test(codec.trim()));
+
+  const video = await Promise.all(variants
+    .filter(isVideo)
+    .map((variant, i) => loadRendition(`video-${i}`, variant.uri, variant.attributes)));
+
+  // Renditions in a group are alternative tracks (languages, commentary) of the same audio
+  const groupId = variants.find((variant) => variant.attributes.AUDIO)?.attributes.AUDIO;
+  const group = audioMedia.filter((media) => media.GROUP_ID === groupId);
+
+  let audio: Rendition[];
+  if (group.length > 0) {
+    audio = await Promise.all(group.map(async (media, i) => ({
+      ...await loadRendition(`audio-${i}`, media.URI, {}),
+      track: media.NAME ?? `audio-${i}`,
+      language: media.LANGUAGE,
+      label: media.NAME,
+      isDefault: media.DEFAULT === 'YES',
+    })));
+  } else {
+    const audioOnly = variants.filter((variant) => !isVideo(variant));
+    audio = audioOnly.length > 0
+      ? await Promise.all(audioOnly.map((variant, i) => loadRendition(`audio-${i}`, variant.uri, variant.attributes)))
+      : video;   // Muxed - the demuxer checks each init segment for an audio track
+  }
+
+  return {
+    type: 'hls',
+    duration: getDuration(video[0] ?? audio[0]),
+    video,
+    audio,
+  };
+}
+
+/**
+ * Segments of an on-demand media playlist with an EXT-X-MAP init segment
+ */
+function parseMediaPlaylist(url: string, text: string): Pick<Rendition, 'init' | 'segments'> {
+  const lines = getLines(text, url);
+
+  if (!lines.includes('#EXT-X-ENDLIST')) {
+    throw new Error(`Live HLS playlists aren't supported: ${url}`);
+  }
+
+  let init: SegmentRef | null = null;
+  const segments: MediaSegment[] = [];
+  let start = 0;
+  let duration = 0;
+  let range: { start: number; end: number } | undefined;
+  let rangeEnd = 0;   // A BYTERANGE without an offset follows on from the previous one
+
+  for (const line of lines) {
+    if (line.startsWith('#EXT-X-MAP:')) {
+      const attributes = parseAttributes(line);
+      init = {
+        url: resolveUrl(attributes.URI, url),
+        range: attributes.BYTERANGE ? parseByteRange(attributes.BYTERANGE, 0) : undefined,
+      };
+    } else if (line.startsWith('#EXT-X-KEY:')) {
+      if (parseAttributes(line).METHOD !== 'NONE') {
+        throw new Error(`Encrypted HLS streams aren't supported: ${url}`);
+      }
+    } else if (line.startsWith('#EXTINF:')) {
+      duration = parseFloat(line.slice('#EXTINF:'.length));
+    } else if (line.startsWith('#EXT-X-BYTERANGE:')) {
+      range = parseByteRange(line.slice('#EXT-X-BYTERANGE:'.length), rangeEnd);
+      rangeEnd = range.end;
+    } else if (!line.startsWith('#')) {
+      segments.push({ url: resolveUrl(line, url), range, start, duration });
+      start += duration;
+      range = undefined;
+    }
+  }
+
+  if (!init) {
+    throw new Error(`Only fMP4 HLS segments are supported (no EXT-X-MAP in ${url})`);
+  }
+
+  return { init, segments };
+}
+
+function getLines(text: string, url: string): string[] {
+  const lines = text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+
+  if (lines[0] !== '#EXTM3U') {
+    throw new Error(`Not an HLS playlist: ${url}`);
+  }
+  return lines;
+}
+
+/**
+ * KEY=value,KEY="quoted, value" → { KEY: value } - hyphens in keys become underscores
+ */
+function parseAttributes(line: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const list = line.slice(line.indexOf(':') + 1);
+
+  for (const match of list.matchAll(/([A-Z0-9-]+)=("[^"]*"|[^,]*)/g)) {
+    attributes[match[1].replace(/-/g, '_')] = match[2].replace(/^"|"$/g, '');
+  }
+  return attributes;
+}
+
+/**
+ * length[@offset] → an end-exclusive range
+ */
+function parseByteRange(value: string, defaultOffset: number): { start: number; end: number } {
+  const [length, offset] = value.split('@').map(Number);
+  const start = offset ?? defaultOffset;
+  return { start, end: start + length };
+}
+
+function getDuration(rendition: Rendition): number {
+  const last = rendition.segments[rendition.segments.length - 1];
+  return last ? last.start + last.duration : 0;
+}
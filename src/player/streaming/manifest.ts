@@ -0,0 +1,100 @@
+import type { RangeFetch } from '../http-file';
+import { parseHls } from './hls';
+import { parseDash } from './dash';
+
+/**
+ * Adaptive streaming manifests (HLS / DASH), reduced to what the player needs:
+ * a list of renditions per track type, each an init segment plus media segments
+ * on one shared timeline. Only on-demand streams with fMP4 / CMAF segments are supported.
+ */
+
+export type ManifestType = 'hls' | 'dash';
+
+/**
+ * A byte range of a resource - the whole resource when range is absent
+ */
+export interface SegmentRef {
+  url: string;
+  /** Byte range, end exclusive */
+  range?: { start: number; end: number };
+}
+
+export interface MediaSegment extends SegmentRef {
+  /** Start on the presentation timeline, in seconds */
+  start: number;
+  duration: number;
+}
+
+export interface Rendition {
+  id: string;
+  /** Peak bits per second, as advertised by the manifest */
+  bandwidth: number;
+  /** RFC 6381 codec strings, when the manifest lists them */
+  codecs?: string;
+  width?: number;
+  height?: number;
+  init: SegmentRef;
+  segments: MediaSegment[];
+  /**
+   * Audio renditions with the same track are one audio track (a language, a commentary)
+   * at different bitrates - renditions without one all belong to the same track
+   */
+  track?: string;
+  language?: string;
+  /** Human-readable track name, e.g. an HLS NAME or a DASH Label */
+  label?: string;
+  /** The manifest marks this track as the one to play by default */
+  isDefault?: boolean;
+}
+
+export interface StreamManifest {
+  type: ManifestType;
+  /** Seconds */
+  duration: number;
+  /** Lowest bandwidth first */
+  video: Rendition[];
+  /** Lowest bandwidth first, across all tracks - HLS variants with muxed audio are listed here too */
+  audio: Rendition[];
+}
+
+/**
+ * Tell a manifest URL apart from a media file URL by its extension
+ */
+export function getManifestType(url: string): ManifestType | null {
+  const path = new URL(url, self.location.href).pathname.toLowerCase();
+
+  if (path.endsWith('.m3u8')) return 'hls';
+  if (path.endsWith('.mpd')) return 'dash';
+  return null;
+}
+
+/**
+ * Fetch and parse a manifest, including the HLS media playlists / DASH segment indexes it points to
+ * @throws Error for live streams, MPEG-TS / WebM segments and manifests without playable renditions
+ */
+export async function loadManifest(url: string, type: ManifestType, fetchFn: RangeFetch): Promise<StreamManifest> {
+  const text = await fetchText(url, fetchFn);
+  const manifest = type === 'hls' ? await parseHls(url, text, fetchFn) : await parseDash(url, text, fetchFn);
+
+  if (manifest.video.length === 0 && manifest.audio.length === 0) {
+    throw new Error(`No playable renditions in ${url}`);
+  }
+
+  const byBandwidth = (a: Rendition, b: Rendition) => a.bandwidth - b.bandwidth;
+  manifest.video.sort(byBandwidth);
+  manifest.audio.sort(byBandwidth);
+
+  return manifest;
+}
+
+export async function fetchText(url: string, fetchFn: RangeFetch): Promise<string> {
+  const response = await fetchFn(url, { headers: {} });
+  if (!response.ok) {
+    throw new Error(`Request for ${url} failed with status ${response.status}`);
+  }
+  return response.text();
+}
+
+export function resolveUrl(url: string, base: string): string {
+  return new URL(url, base).href;
+}
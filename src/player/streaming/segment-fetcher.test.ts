@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { RangeFetch } from '../http-file';
+import { SegmentFetcher } from './segment-fetcher';
+
+/**
+ * A fetch that answers with bytes of the given size, taking the given seconds
+ */
+function timedFetch(downloads: { bytes: number; seconds: number; status?: number }[]) {
+  let now = 0;
+  vi.spyOn(performance, 'now').mockImplementation(() => now);
+
+  const requests: Record<string, string>[] = [];
+  const fetchFn: RangeFetch = async (_url, init) => {
+    const download = downloads[requests.length];
+    requests.push(init.headers);
+    now += download.seconds * 1000;
+    return new Response(new Uint8Array(download.bytes), { status: download.status ?? 200 });
+  };
+
+  return { fetchFn, requests };
+}
+
+describe('SegmentFetcher', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('reports the default estimate until something is measured', async () => {
+    const { fetchFn } = timedFetch([{ bytes: 1000, seconds: 1 }]);
+    const fetcher = new SegmentFetcher(fetchFn);
+
+    expect(fetcher.getThroughput()).toBe(1_000_000);
+
+    // Too small to say anything about throughput
+    await fetcher.fetch({ url: 'https://example.com/init.mp4' });
+    expect(fetcher.getThroughput()).toBe(1_000_000);
+  });
+
+  it('takes the first download as the estimate', async () => {
+    const { fetchFn } = timedFetch([{ bytes: 500_000, seconds: 1 }]);
+    const fetcher = new SegmentFetcher(fetchFn);
+
+    await fetcher.fetch({ url: 'https://example.com/1.m4s' });
+    expect(fetcher.getThroughput()).toBeCloseTo(4_000_000);
+  });
+
+  it('drops quickly when downloads slow down, but rises slowly', async () => {
+    const { fetchFn } = timedFetch([
+      { bytes: 1_000_000, seconds: 1 },   // 8 Mbps
+      { bytes: 250_000, seconds: 2 },     // 1 Mbps
+      { bytes: 2_000_000, seconds: 1 },   // 16 Mbps
+    ]);
+    const fetcher = new SegmentFetcher(fetchFn);
+
+    await fetcher.fetch({ url: 'https://example.com/1.m4s' });
+    await fetcher.fetch({ url: 'https://example.com/2.m4s' });
+    const slowed = fetcher.getThroughput();
+    expect(slowed).toBeLessThan(5_000_000);
+
+    await fetcher.fetch({ url: 'https://example.com/3.m4s' });
+    expect(fetcher.getThroughput()).toBeGreaterThan(slowed);
+    expect(fetcher.getThroughput()).toBeLessThan(8_000_000);
+  });
+
+  it('sends byte ranges end inclusive and insists on a 206', async () => {
+    const { fetchFn, requests } = timedFetch([{ bytes: 100, seconds: 0.1, status: 206 }, { bytes: 100, seconds: 0.1 }]);
+    const fetcher = new SegmentFetcher(fetchFn);
+    const segment = { url: 'https://example.com/video.mp4', range: { start: 100, end: 200 } };
+
+    await fetcher.fetch(segment);
+    expect(requests[0]).toEqual({ Range: 'bytes=100-199' });
+
+    await expect(fetcher.fetch(segment)).rejects.toThrow('failed with status 200');
+  });
+});
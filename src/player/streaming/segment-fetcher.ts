@@ -0,0 +1,96 @@
+import type { RangeFetch } from '../http-file';
+import type { SegmentRef } from './manifest';
+
+// Downloads smaller than this are mostly latency - they say little about throughput
+const MIN_SAMPLE_BYTES = 16 * 1024;
+
+// Estimate before the first measurement, in bits per second
+const DEFAULT_THROUGHPUT = 1_000_000;
+
+/**
+ * Exponentially weighted moving average, weighted by download time rather than per
+ * sample, so one long download counts for more than one tiny one
+ */
+class Ewma {
+  private alpha: number;
+  private estimate = 0;
+  private totalWeight = 0;
+
+  /**
+   * @param halfLife - Seconds of download time after which a sample's weight has halved
+   */
+  constructor(halfLife: number) {
+    this.alpha = Math.exp(Math.log(0.5) / halfLife);
+  }
+
+  sample(weight: number, value: number) {
+    const adjustedAlpha = Math.pow(this.alpha, weight);
+    this.estimate = value * (1 - adjustedAlpha) + adjustedAlpha * this.estimate;
+    this.totalWeight += weight;
+  }
+
+  /**
+   * The average, corrected for starting from zero
+   */
+  getEstimate(): number {
+    const zeroFactor = 1 - Math.pow(this.alpha, this.totalWeight);
+    return zeroFactor > 0 ? this.estimate / zeroFactor : 0;
+  }
+}
+
+/**
+ * SegmentFetcher - downloads init / media segments and measures throughput
+ *
+ * Throughput is tracked with a fast and a slow moving average and the lower of the
+ * two is reported, so the estimate drops quickly when the network slows down but
+ * only rises once a higher rate has been sustained.
+ */
+export class SegmentFetcher {
+  private fetchFn: RangeFetch;
+  private fast = new Ewma(2);
+  private slow = new Ewma(5);
+  private sampled = false;
+
+  constructor(fetchFn: RangeFetch) {
+    this.fetchFn = fetchFn;
+  }
+
+  /**
+   * @throws Error if the request fails, or a byte range request isn't answered with 206
+   */
+  async fetch(segment: SegmentRef): Promise<ArrayBuffer> {
+    const headers: Record<string, string> = segment.range
+      ? { Range: `bytes=${segment.range.start}-${segment.range.end - 1}` }
+      : {};
+
+    const startTime = performance.now();
+    const response = await this.fetchFn(segment.url, { headers });
+
+    // A 200 to a range request would be the whole file - never silently download that
+    if (segment.range ? response.status !== 206 : !response.ok) {
+      throw new Error(`Request for ${segment.url} failed with status ${response.status}`);
+    }
+
+    const data = await response.arrayBuffer();
+    this.sample(data.byteLength, (performance.now() - startTime) / 1000);
+
+    return data;
+  }
+
+  /**
+   * Estimated throughput in bits per second
+   */
+  getThroughput(): number {
+    if (!this.sampled) return DEFAULT_THROUGHPUT;
+    return Math.min(this.fast.getEstimate(), this.slow.getEstimate());
+  }
+
+  private sample(bytes: number, seconds: number) {
+    if (bytes < MIN_SAMPLE_BYTES || seconds <= 0) return;
+
+    const bitsPerSecond = (bytes * 8) / seconds;
+    this.fast.sample(seconds, bitsPerSecond);
+    this.slow.sample(seconds, bitsPerSecond);
+    this.sampled = true;
+  }
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { getChild, getChildren, parseXml } from './xml';
+
+describe('parseXml', () => {
+  it('reads elements, attributes and text, skipping the declaration and comments', () => {
+    const root = parseXml(
+      '<?xml version="1.0" encoding="UTF-8"?>\n<!-- generated -->\n' +
+      '<MPD type="static" profiles=\'urn:mpeg:dash:profile:isoff-on-demand:2011\'>\n' +
+      '  <BaseURL>https://cdn.example.com/</BaseURL>\n' +
+      '  <Period><AdaptationSet id="1"/><AdaptationSet id="2"></AdaptationSet></Period>\n' +
+      '</MPD>'
+    );
+
+    expect(root.name).toBe('MPD');
+    expect(root.attributes).toEqual({ type: 'static', profiles: 'urn:mpeg:dash:profile:isoff-on-demand:2011' });
+    expect(getChild(root, 'BaseURL')?.text).toBe('https://cdn.example.com/');
+    expect(getChildren(getChild(root, 'Period'), 'AdaptationSet').map((set) => set.attributes.id)).toEqual(['1', '2']);
+  });
+
+  it('drops namespace prefixes from tags and attributes', () => {
+    const root = parseXml('<mpd:MPD xmlns:mpd="urn:mpeg:dash:schema:mpd:2011" xlink:href="a"><mpd:Period/></mpd:MPD>');
+
+    expect(root.name).toBe('MPD');
+    expect(root.attributes.href).toBe('a');
+    expect(getChild(root, 'Period')).toBeDefined();
+  });
+
+  it('decodes named and numeric entities', () => {
+    const root = parseXml('<BaseURL title="a &quot;b&quot;">seg?a=1&amp;b=2&#x41;&#66;&unknown;</BaseURL>');
+
+    expect(root.attributes.title).toBe('a "b"');
+    expect(root.text).toBe('seg?a=1&b=2AB&unknown;');
+  });
+
+  it('returns nothing for missing children', () => {
+    const root = parseXml('<MPD/>');
+
+    expect(getChild(root, 'Period')).toBeUndefined();
+    expect(getChildren(undefined, 'Period')).toEqual([]);
+  });
+
+  it('throws without a root element', () => {
+    expect(() => parseXml('<!-- nothing -->')).toThrow('no root element');
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Minimal XML reader for DASH manifests
+ *
+ * DOMParser isn't available in workers, and an MPD only needs elements, attributes
+ * and the text of BaseURL elements - namespace prefixes are dropped, DTDs are ignored.
+ */
+
+export interface XmlElement {
+  /** Tag name without any namespace prefix */
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+/**
+ * @returns The root element
+ * @throws Error if the document has no root element
+ */
+export function parseXml(text: string): XmlElement {
+  const root: XmlElement = { name: '', attributes: {}, children: [], text: '' };
+  const stack: XmlElement[] = [root];
+
+  // Comments / declarations / CDATA, closing tags, opening tags, and text between them
+  const tokens = /<!--[\s\S]*?-->|<[?!][\s\S]*?>|<\/([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+
+  for (const match of text.matchAll(tokens)) {
+    const [, closing, opening, attributeList, selfClosing, content] = match;
+    const parent = stack[stack.length - 1];
+
+    if (opening) {
+      const element: XmlElement = {
+        name: localName(opening),
+        attributes: parseAttributes(attributeList),
+        children: [],
+        text: '',
+      };
+      parent.children.push(element);
+      if (!selfClosing) stack.push(element);
+    } else if (closing) {
+      if (stack.length > 1) stack.pop();
+    } else if (content) {
+      parent.text += decodeEntities(content);
+    }
+  }
+
+  if (!root.children[0]) {
+    throw new Error('Invalid XML: no root element');
+  }
+  return root.children[0];
+}
+
+export function getChild(element: XmlElement | undefined, name: string): XmlElement | undefined {
+  return element?.children.find((child) => child.name === name);
+}
+
+export function getChildren(element: XmlElement | undefined, name: string): XmlElement[] {
+  return element?.children.filter((child) => child.name === name) ?? [];
+}
+
+function parseAttributes(list: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+
+  for (const match of list.matchAll(/([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[localName(match[1])] = decodeEntities(match[2] ?? match[3]);
+  }
+  return attributes;
+}
+
+function localName(name: string): string {
+  return name.slice(name.indexOf(':') + 1);
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      return String.fromCodePoint(code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10));
+    }
+    return ENTITIES[code] ?? entity;
+  });
+}
@@ -0,0 +1,56 @@
+import { v4 as uuidv4 } from 'uuid';
+import { CueIndex, SubtitleCue, parseSubtitles } from '../utils/subtitles';
+
+export interface TextTrackOptions {
+  /** Display name, e.g. "English (CC)" - defaults to the file name or "Subtitles" */
+  label?: string;
+  /** BCP 47 language tag, e.g. "en" */
+  language?: string;
+}
+
+export interface TextTrackInfo {
+  id: string;
+  label: string;
+  language?: string;
+  cueCount: number;
+}
+
+/**
+ * A soft subtitle track loaded from an SRT or WebVTT file
+ *
+ * Cues are parsed once on the main thread - the Clock looks up the active
+ * cues on every tick, and the video worker only ever receives the text to draw.
+ */
+export class TextTrack {
+  readonly id: string;
+  readonly label: string;
+  readonly language?: string;
+  readonly cues: CueIndex;
+
+  private constructor(cues: SubtitleCue[], label: string, language?: string) {
+    this.id = uuidv4();
+    this.label = label;
+    this.language = language;
+    this.cues = new CueIndex(cues);
+  }
+
+  /**
+   * @param source - SRT / WebVTT text, or a File / Blob containing it
+   * @throws Error if the source has no cues
+   */
+  static async load(source: string | Blob, options?: TextTrackOptions): Promise<TextTrack> {
+    const text = typeof source === 'string' ? source : await source.text();
+    const fallbackLabel = source instanceof File ? source.name : 'Subtitles';
+
+    return new TextTrack(parseSubtitles(text), options?.label ?? fallbackLabel, options?.language);
+  }
+
+  getInfo(): TextTrackInfo {
+    return {
+      id: this.id,
+      label: this.label,
+      language: this.language,
+      cueCount: this.cues.cues.length,
+    };
+  }
+}
@@ -0,0 +1,83 @@
+import { getLoopPosition } from './clock';
+import type { LoopRange, TimeSource } from './clock';
+
+/**
+ * WallClock - Fallback time source for files without audio
+ *
+ * When there is no audio track there is no AudioContext timeline to follow,
+ * so time is derived from performance.now() instead. It mirrors the
+ * WebAudioPlayer timeline model (pauseTime + elapsed since startTime) so the
+ * Clock behaves identically either way.
+ */
+export class WallClock implements TimeSource {
+  private isPlaying: boolean = false;
+  private startTime: number = 0;   // performance.now() (ms) when the timeline was last anchored
+  private pauseTime: number = 0;   // Media time (seconds) at the anchor point
+  private playbackRate: number = 1;
+  private loopRange: LoopRange | null = null;
+
+  async play(): Promise<void> {
+    if (this.isPlaying) return;
+    this.pauseTime = getLoopPosition(this.pauseTime, this.loopRange);
+    this.startTime = performance.now();
+    this.isPlaying = true;
+  }
+
+  pause(): void {
+    if (!this.isPlaying) return;
+    this.pauseTime = this.getCurrentTime();
+    this.isPlaying = false;
+  }
+
+  async seek(time: number): Promise<void> {
+    this.pauseTime = getLoopPosition(time, this.loopRange);
+    this.startTime = performance.now();
+  }
+
+  async setPlaybackRate(rate: number): Promise<void> {
+    // Re-anchor so the rate change doesn't jump the current position
+    this.pauseTime = this.getCurrentTime();
+    this.startTime = performance.now();
+    this.playbackRate = rate;
+  }
+
+  async setLoopRange(range: LoopRange | null): Promise<void> {
+    // Re-anchor first so the new range can't wrap time that has already played
+    this.pauseTime = getLoopPosition(this.getCurrentTime(), range);
+    this.startTime = performance.now();
+    this.loopRange = range;
+  }
+
+  getCurrentTime(): number {
+    if (!this.isPlaying) return this.pauseTime;
+
+    const time = this.getTimelineTime();
+
+    // Crossed the loop point, but the clock hasn't re-anchored yet
+    if (this.loopRange && time >= this.loopRange.end) {
+      const { start, end } = this.loopRange;
+      return start + (time - end) % (end - start);
+    }
+
+    return time;
+  }
+
+  wrapLoop(): void {
+    if (!this.isPlaying || !this.loopRange) return;
+
+    const { start, end } = this.loopRange;
+    if (this.getTimelineTime() < end) return;
+
+    // Crossed the loop point - re-anchor at the start of the loop
+    this.startTime += ((end - this.pauseTime) / this.playbackRate) * 1000;
+    this.pauseTime = start;
+  }
+
+  private getTimelineTime(): number {
+    return this.pauseTime + ((performance.now() - this.startTime) / 1000) * this.playbackRate;
+  }
+
+  checkForPreLoad(): void {
+    // Nothing to preload - there is no media behind this timeline
+  }
+}
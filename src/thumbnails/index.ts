@@ -0,0 +1,2 @@
+export { generateThumbnails } from './thumbnails';
+export type { ThumbnailOptions, ThumbnailTile, ThumbnailSprite } from './thumbnails';
@@ -0,0 +1,210 @@
+import { MP4Demuxer } from 'webcodecs-utils';
+import { getMP4BoxFile } from '../utils/mp4box';
+
+export interface ThumbnailOptions {
+  /** Number of evenly spaced thumbnails (default 20) */
+  count?: number;
+  /** Tile width in pixels - height follows the video's aspect ratio (default 160) */
+  width?: number;
+  /** Tiles per row in the sprite sheet (default min(count, 10)) */
+  columns?: number;
+  /** Sprite sheet image type (default 'image/jpeg') */
+  type?: 'image/jpeg' | 'image/png' | 'image/webp';
+  /** 0-1, for image/jpeg and image/webp (default 0.8) */
+  quality?: number;
+  /** How the WebVTT map refers to the sprite sheet (default 'sprite.jpg') */
+  spriteUrl?: string;
+}
+
+export interface ThumbnailTile {
+  /** The span of the timeline this tile stands for, in seconds */
+  start: number;
+  end: number;
+  /** Timestamp of the keyframe shown, in seconds */
+  time: number;
+  /** Rectangle in the sprite sheet, in pixels */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ThumbnailSprite {
+  /** All tiles in one image, left to right, top to bottom */
+  sprite: Blob;
+  /** time → tile rectangle, in timeline order */
+  tiles: ThumbnailTile[];
+  /** The same map as WebVTT, with `spriteUrl#xywh=x,y,w,h` cues */
+  vtt: string;
+  columns: number;
+  rows: number;
+}
+
+interface KeyframeSample {
+  timestamp: number;   // Microseconds
+  offset: number;      // Byte offset in the file
+  size: number;
+}
+
+/**
+ * Generate a sprite sheet of evenly spaced thumbnails, e.g. for a scrubber
+ *
+ * Each tile shows the keyframe nearest the middle of its span. Only those keyframes
+ * are read from the file and decoded - no GOP is decoded past its first frame.
+ *
+ * @param file - MP4 file
+ * @throws Error if the file has no video track
+ */
+export async function generateThumbnails(file: Blob, options?: ThumbnailOptions): Promise<ThumbnailSprite> {
+  const count = options?.count ?? 20;
+  const tileWidth = options?.width ?? 160;
+  const type = options?.type ?? 'image/jpeg';
+
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(`Thumbnail count must be a positive integer, got ${count}`);
+  }
+
+  const demuxer = new MP4Demuxer(file);
+  await demuxer.load();
+
+  const trackData = demuxer.getTracks();
+  if (!trackData.video) {
+    throw new Error('Cannot generate thumbnails: file has no video track');
+  }
+
+  const duration: number = trackData.duration;
+  const config: VideoDecoderConfig = demuxer.getVideoDecoderConfig();
+  const keyframes = getKeyframes(demuxer);
+  if (keyframes.length === 0) {
+    throw new Error('Cannot generate thumbnails: video track has no keyframes');
+  }
+
+  const columns = Math.min(options?.columns ?? 10, count);
+  const rows = Math.ceil(count / columns);
+  const tileHeight = Math.round(tileWidth * trackData.video.codedHeight / trackData.video.codedWidth);
+
+  // Pick the keyframe nearest the middle of each span - neighbouring tiles may share one
+  const span = duration / count;
+  const tiles: ThumbnailTile[] = [];
+  const tilesByKeyframe = new Map<KeyframeSample, number[]>();
+
+  for (let i = 0; i < count; i++) {
+    const keyframe = findNearest(keyframes, (i + 0.5) * span * 1e6);
+
+    tiles.push({
+      start: i * span,
+      end: (i + 1) * span,
+      time: keyframe.timestamp / 1e6,
+      x: (i % columns) * tileWidth,
+      y: Math.floor(i / columns) * tileHeight,
+      width: tileWidth,
+      height: tileHeight,
+    });
+
+    tilesByKeyframe.set(keyframe, [...(tilesByKeyframe.get(keyframe) ?? []), i]);
+  }
+
+  const canvas = new OffscreenCanvas(columns * tileWidth, rows * tileHeight);
+  const ctx = canvas.getContext('2d')!;
+  ctx.imageSmoothingQuality = 'high';
+
+  // Keyframes decode on their own, so they can be fed to one decoder back to back
+  const pending = new Map<number, number[]>();
+  for (const [keyframe, indices] of tilesByKeyframe) {
+    pending.set(keyframe.timestamp, indices);
+  }
+
+  let decodeError = null as Error | null;
+  const decoder = new VideoDecoder({
+    output: (frame) => {
+      for (const index of pending.get(frame.timestamp) ?? []) {
+        const tile = tiles[index];
+        ctx.drawImage(frame, tile.x, tile.y, tile.width, tile.height);
+      }
+      frame.close();
+    },
+    error: (e) => {
+      decodeError = e;
+    },
+  });
+
+  try {
+    decoder.configure(config);
+
+    for (const keyframe of tilesByKeyframe.keys()) {
+      const data = await file.slice(keyframe.offset, keyframe.offset + keyframe.size).arrayBuffer();
+      decoder.decode(new EncodedVideoChunk({ type: 'key', timestamp: keyframe.timestamp, data }));
+    }
+
+    await decoder.flush();
+  } finally {
+    if (decoder.state !== 'closed') decoder.close();
+  }
+
+  if (decodeError) throw decodeError;
+
+  const sprite = await canvas.convertToBlob({ type, quality: options?.quality ?? 0.8 });
+
+  return {
+    sprite,
+    tiles,
+    vtt: toWebVTT(tiles, options?.spriteUrl ?? 'sprite.jpg'),
+    columns,
+    rows,
+  };
+}
+
+/**
+ * Keyframes in presentation order, read from the MP4 sample table
+ *
+ * MP4Demuxer doesn't expose the table itself, so this goes through its MP4Box file.
+ * Timestamps are rounded the same way extractSegment() rounds them.
+ */
+function getKeyframes(demuxer: MP4Demuxer): KeyframeSample[] {
+  const track = demuxer.getInfo().videoTracks[0];
+  const samples = getMP4BoxFile(demuxer).getTrackSamplesInfo(track.id);
+
+  return samples
+    .filter((sample) => sample.is_sync)
+    .map((sample) => ({
+      timestamp: Math.round(1e6 * (sample.cts / sample.timescale)),
+      offset: sample.offset,
+      size: sample.size,
+    }))
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Keyframe closest to a timestamp (µs)
+ */
+function findNearest(keyframes: KeyframeSample[], timestamp: number): KeyframeSample {
+  let nearest = keyframes[0];
+  for (const keyframe of keyframes) {
+    if (Math.abs(keyframe.timestamp - timestamp) < Math.abs(nearest.timestamp - timestamp)) {
+      nearest = keyframe;
+    }
+  }
+  return nearest;
+}
+
+function toWebVTT(tiles: ThumbnailTile[], spriteUrl: string): string {
+  const cues = tiles.map((tile) =>
+    `${formatTimestamp(tile.start)} --> ${formatTimestamp(tile.end)}\n` +
+    `${spriteUrl}#xywh=${tile.x},${tile.y},${tile.width},${tile.height}`
+  );
+
+  return `WEBVTT\n\n${cues.join('\n\n')}\n`;
+}
+
+/**
+ * Seconds → hh:mm:ss.mmm
+ */
+function formatTimestamp(seconds: number): string {
+  const ms = Math.round(seconds * 1000);
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor(ms / 60000) % 60;
+  const secs = Math.floor(ms / 1000) % 60;
+
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:` +
+    `${String(secs).padStart(2, '0')}.${String(ms % 1000).padStart(3, '0')}`;
+}
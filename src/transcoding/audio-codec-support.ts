@@ -0,0 +1,61 @@
+import { isAACSupported } from '../webcam-recording/audio-codec-support';
+
+/**
+ * Audio codecs mp4-muxer can write
+ */
+export type MuxerAudioCodec = 'aac' | 'opus';
+
+/**
+ * Map a source codec string to the mp4-muxer codec that can carry it as-is
+ * @returns null if the source has to be re-encoded (MP3, Vorbis, FLAC, PCM...)
+ */
+export function getMuxerAudioCodec(codec: string): MuxerAudioCodec | null {
+  if (codec.startsWith('mp4a.40')) return 'aac';
+  if (codec === 'opus') return 'opus';
+  return null;
+}
+
+/**
+ * How the audio track gets into the output file
+ */
+export interface AudioOutputPlan {
+  codec: MuxerAudioCodec;                     // Codec the muxer is configured with
+  sampleRate: number;
+  numberOfChannels: number;
+  encoderConfig: AudioEncoderConfig | null;   // null = pass-through, no re-encoding
+}
+
+/**
+ * Decide whether the source audio can be copied into the MP4 untouched,
+ * or needs decode → resample/downmix → AudioEncoder
+ */
+export async function getAudioOutputPlan(source: { codec: string; sampleRate: number; numberOfChannels: number }): Promise<AudioOutputPlan> {
+  const passThroughCodec = getMuxerAudioCodec(source.codec);
+
+  if (passThroughCodec) {
+    return {
+      codec: passThroughCodec,
+      sampleRate: source.sampleRate,
+      numberOfChannels: source.numberOfChannels,
+      encoderConfig: null,
+    };
+  }
+
+  // Encoders reliably accept 44.1/48kHz mono or stereo - anything else gets resampled/downmixed
+  const sampleRate = source.sampleRate === 44100 || source.sampleRate === 48000 ? source.sampleRate : 48000;
+  const numberOfChannels = Math.min(source.numberOfChannels, 2);
+
+  const useAAC = await isAACSupported(sampleRate, numberOfChannels);
+
+  return {
+    codec: useAAC ? 'aac' : 'opus',
+    sampleRate,
+    numberOfChannels,
+    encoderConfig: {
+      codec: useAAC ? 'mp4a.40.2' : 'opus',
+      sampleRate,
+      numberOfChannels,
+      bitrate: 128000,
+    },
+  };
+}
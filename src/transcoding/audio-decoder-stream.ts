@@ -0,0 +1,48 @@
+export class AudioDecoderStream extends TransformStream<EncodedAudioChunk, AudioData> {
+  constructor(config: AudioDecoderConfig, signal?: AbortSignal) {
+    let decoder: AudioDecoder;
+
+    super(
+      {
+        start(controller) {
+          decoder = new AudioDecoder({
+            output: (audioData) => {
+              controller.enqueue(audioData);
+            },
+            error: (e) => {
+              console.error('Audio decoder error:', e);
+              controller.error(e);
+            },
+          });
+
+          decoder.configure(config);
+
+          // Close the decoder straight away if the transcode is cancelled
+          signal?.addEventListener('abort', () => {
+            if (decoder.state !== 'closed') decoder.close();
+          }, { once: true });
+        },
+
+        async transform(chunk, controller) {
+          // Check decoder queue backpressure
+          while (decoder.decodeQueueSize >= 20) {
+            await new Promise((r) => setTimeout(r, 10));
+          }
+
+          // Check downstream backpressure
+          while (controller.desiredSize !== null && controller.desiredSize < 0) {
+            await new Promise((r) => setTimeout(r, 10));
+          }
+
+          decoder.decode(chunk);
+        },
+
+        async flush() {
+          await decoder.flush();
+          if (decoder.state !== 'closed') decoder.close();
+        },
+      },
+      { highWaterMark: 10 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+export class AudioEncoderStream extends TransformStream<AudioData, EncodedAudioChunk> {
+  constructor(config: AudioEncoderConfig, signal?: AbortSignal) {
+    let encoder: AudioEncoder;
+
+    super(
+      {
+        start(controller) {
+          encoder = new AudioEncoder({
+            output: (chunk) => {
+              controller.enqueue(chunk);
+            },
+            error: (e) => {
+              console.error('Audio encoder error:', e);
+              controller.error(e);
+            },
+          });
+
+          encoder.configure(config);
+
+          // Close the encoder straight away if the transcode is cancelled
+          signal?.addEventListener('abort', () => {
+            if (encoder.state !== 'closed') encoder.close();
+          }, { once: true });
+        },
+
+        async transform(audioData, controller) {
+          // Check encoder queue backpressure
+          while (encoder.encodeQueueSize >= 20) {
+            await new Promise((r) => setTimeout(r, 10));
+          }
+
+          // Check downstream backpressure
+          while (controller.desiredSize !== null && controller.desiredSize < 0) {
+            await new Promise((r) => setTimeout(r, 10));
+          }
+
+          encoder.encode(audioData);
+          audioData.close();
+        },
+
+        async flush() {
+          await encoder.flush();
+          if (encoder.state !== 'closed') encoder.close();
+        },
+      },
+      { highWaterMark: 10 }
+    );
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Resample / downmix AudioData to a target sample rate and channel count
+ *
+ * Uses linear interpolation and carries the read position and last sample
+ * between AudioData objects, so there are no clicks at chunk boundaries.
+ * Good enough for speech and general content - not a mastering-grade resampler.
+ */
+export class AudioResampler {
+  private sampleRate: number;
+  private numberOfChannels: number;
+  private position = 0;                          // Read position into the next input, relative to its first sample
+  private previous: Float32Array | null = null;  // Last sample of the previous input, per output channel
+  private nextTimestamp: number | null = null;   // Timestamp (µs) of the next output sample
+
+  constructor(sampleRate: number, numberOfChannels: number) {
+    this.sampleRate = sampleRate;
+    this.numberOfChannels = numberOfChannels;
+  }
+
+  /**
+   * Resample one AudioData. Closes the input.
+   * @returns Resampled AudioData, or null if the input was too short to produce a sample
+   */
+  process(audioData: AudioData): AudioData | null {
+    const frames = audioData.numberOfFrames;
+    const ratio = audioData.sampleRate / this.sampleRate; // Input samples per output sample
+    const input = this.downmix(audioData);
+
+    if (this.nextTimestamp === null) this.nextTimestamp = audioData.timestamp;
+    audioData.close();
+
+    const outputFrames = Math.max(0, Math.ceil((frames - 1 - this.position) / ratio));
+    const output = new Float32Array(outputFrames * this.numberOfChannels);
+
+    let position = this.position;
+    for (let i = 0; i < outputFrames; i++, position += ratio) {
+      const index = Math.floor(position);
+      const fraction = position - index;
+
+      for (let channel = 0; channel < this.numberOfChannels; channel++) {
+        // position can be in [-1, 0) - interpolate from the previous input's last sample
+        const s0 = index < 0 ? (this.previous ? this.previous[channel] : input[channel][0]) : input[channel][index];
+        const s1 = input[channel][index + 1];
+        output[channel * outputFrames + i] = s0 + (s1 - s0) * fraction;
+      }
+    }
+
+    this.position = position - frames;
+    this.previous = new Float32Array(this.numberOfChannels);
+    for (let channel = 0; channel < this.numberOfChannels; channel++) {
+      this.previous[channel] = input[channel][frames - 1];
+    }
+
+    if (outputFrames === 0) return null;
+
+    const timestamp = this.nextTimestamp;
+    this.nextTimestamp += (outputFrames / this.sampleRate) * 1e6;
+
+    return new AudioData({
+      format: 'f32-planar',
+      sampleRate: this.sampleRate,
+      numberOfFrames: outputFrames,
+      numberOfChannels: this.numberOfChannels,
+      timestamp: Math.round(timestamp),
+      data: output,
+    });
+  }
+
+  /**
+   * Read AudioData as planar float32, mixed down (or duplicated up) to the output channel count
+   */
+  private downmix(audioData: AudioData): Float32Array[] {
+    const frames = audioData.numberOfFrames;
+    const sourceChannels: Float32Array[] = [];
+
+    for (let channel = 0; channel < audioData.numberOfChannels; channel++) {
+      const data = new Float32Array(frames);
+      audioData.copyTo(data, { planeIndex: channel, format: 'f32-planar' });
+      sourceChannels.push(data);
+    }
+
+    if (sourceChannels.length === this.numberOfChannels) return sourceChannels;
+
+    const output: Float32Array[] = [];
+    for (let channel = 0; channel < this.numberOfChannels; channel++) {
+      output.push(new Float32Array(frames));
+    }
+
+    if (this.numberOfChannels === 1) {
+      // Mono: average every channel
+      for (const source of sourceChannels) {
+        for (let i = 0; i < frames; i++) output[0][i] += source[i] / sourceChannels.length;
+      }
+    } else if (sourceChannels.length === 1) {
+      // Mono source: duplicate into every output channel
+      for (const channel of output) channel.set(sourceChannels[0]);
+    } else if (sourceChannels.length === 6 && this.numberOfChannels === 2) {
+      // 5.1 (L, R, C, LFE, Ls, Rs) → stereo, ITU-R BS.775 coefficients, LFE dropped
+      const [l, r, c, , ls, rs] = sourceChannels;
+      const norm = 1 / (1 + 2 * Math.SQRT1_2);
+      for (let i = 0; i < frames; i++) {
+        output[0][i] = (l[i] + Math.SQRT1_2 * (c[i] + ls[i])) * norm;
+        output[1][i] = (r[i] + Math.SQRT1_2 * (c[i] + rs[i])) * norm;
+      }
+    } else {
+      // Other layouts: fold channels round-robin onto the outputs
+      const counts = new Array(this.numberOfChannels).fill(0);
+      sourceChannels.forEach((_, channel) => counts[channel % this.numberOfChannels]++);
+      sourceChannels.forEach((source, channel) => {
+        const target = channel % this.numberOfChannels;
+        for (let i = 0; i < frames; i++) output[target][i] += source[i] / counts[target];
+      });
+    }
+
+    return output;
+  }
+}
+
+/**
+ * TransformStream wrapper around AudioResampler
+ * Sits between AudioDecoderStream and AudioEncoderStream when the encoder
+ * can't take the source sample rate / channel layout directly
+ */
+export class AudioResampleStream extends TransformStream<AudioData, AudioData> {
+  constructor(sampleRate: number, numberOfChannels: number) {
+    const resampler = new AudioResampler(sampleRate, numberOfChannels);
+
+    super(
+      {
+        async transform(audioData, controller) {
+          // Check downstream backpressure
+          while (controller.desiredSize !== null && controller.desiredSize < 0) {
+            await new Promise((r) => setTimeout(r, 10));
+          }
+
+          const resampled = resampler.process(audioData);
+          if (resampled) controller.enqueue(resampled);
+        },
+      },
+      { highWaterMark: 10 }
+    );
+  }
+}
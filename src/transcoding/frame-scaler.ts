@@ -0,0 +1,29 @@
+/**
+ * Scales VideoFrames to the output resolution with OffscreenCanvas 2D
+ *
+ * Returns the original frame untouched when no scaling is needed, so callers
+ * should only close the result if it differs from the input.
+ */
+export class FrameScaler {
+  private canvas: OffscreenCanvas;
+  private ctx: OffscreenCanvasRenderingContext2D;
+
+  constructor(width: number, height: number) {
+    this.canvas = new OffscreenCanvas(width, height);
+    this.ctx = this.canvas.getContext('2d')!;
+    this.ctx.imageSmoothingQuality = 'high';
+  }
+
+  scale(frame: VideoFrame): VideoFrame {
+    if (frame.displayWidth === this.canvas.width && frame.displayHeight === this.canvas.height) {
+      return frame;
+    }
+
+    this.ctx.drawImage(frame, 0, 0, this.canvas.width, this.canvas.height);
+
+    return new VideoFrame(this.canvas, {
+      timestamp: frame.timestamp,
+      duration: frame.duration ?? undefined,
+    });
+  }
+}
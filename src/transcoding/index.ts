@@ -1,4 +1,15 @@
 export { transcodeFile } from './transcoder';
-export type { TranscodeMethod } from './transcoder';
+export type { TranscodeMethod, TranscodeFileOptions } from './transcoder';
+export type { TranscodeOptions, TrimMode } from './transcode-options';
+export type { VideoOutputOptions, VideoOutputCodec, VideoQuality } from './video-output';
 export { transcodePromise } from './transcode-promise';
 export { transcodePipeline } from './transcode-pipeline';
+export { transcodeInWorker } from './transcode-in-worker';
+export * as processors from './processors';
+export type { FrameProcessor, ColorAdjustments, Overlay, ImageOverlay, TextOverlay, OverlayPosition, TextStyle, SubtitleStyle, SubtitleBurnInOptions } from './processors';
+export type { TranscodeProgress, TranscodePipelineOptions } from './transcode-pipeline';
+export { TranscodeJob } from './transcode-job';
+export type { TranscodeJobStatus } from './transcode-job';
+export { TranscodeQueue } from './transcode-queue';
+export { parseSubtitles } from '../utils/subtitles';
+export type { SubtitleCue } from '../utils/subtitles';
@@ -0,0 +1,46 @@
+import { FrameProcessor, FrameCanvas } from './frame-processor';
+
+/**
+ * Color adjustments - 1 (or 0 for hue / grayscale / sepia) leaves the frame unchanged
+ */
+export interface ColorAdjustments {
+  brightness?: number;   // 0 = black, 1 = unchanged, >1 brighter
+  contrast?: number;     // 0 = grey, 1 = unchanged, >1 more contrast
+  saturation?: number;   // 0 = greyscale, 1 = unchanged, >1 more saturated
+  hue?: number;          // Hue rotation in degrees
+  grayscale?: number;    // 0-1
+  sepia?: number;        // 0-1
+}
+
+/**
+ * Adjust colors with the 2D canvas filter (same syntax as CSS filters)
+ */
+export function colorAdjust(adjustments: ColorAdjustments): FrameProcessor {
+  const surface = new FrameCanvas();
+  const filter = getFilter(adjustments);
+
+  return async (frame) => {
+    if (filter === 'none') return frame;
+
+    const width = frame.displayWidth;
+    const height = frame.displayHeight;
+
+    return surface.render(frame, width, height, (ctx) => {
+      ctx.filter = filter;
+      ctx.drawImage(frame, 0, 0, width, height);
+    });
+  };
+}
+
+function getFilter(adjustments: ColorAdjustments): string {
+  const filters: string[] = [];
+
+  if (adjustments.brightness !== undefined && adjustments.brightness !== 1) filters.push(`brightness(${adjustments.brightness})`);
+  if (adjustments.contrast !== undefined && adjustments.contrast !== 1) filters.push(`contrast(${adjustments.contrast})`);
+  if (adjustments.saturation !== undefined && adjustments.saturation !== 1) filters.push(`saturate(${adjustments.saturation})`);
+  if (adjustments.hue) filters.push(`hue-rotate(${adjustments.hue}deg)`);
+  if (adjustments.grayscale) filters.push(`grayscale(${adjustments.grayscale})`);
+  if (adjustments.sepia) filters.push(`sepia(${adjustments.sepia})`);
+
+  return filters.length > 0 ? filters.join(' ') : 'none';
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { FrameProcessor, getProcessedSize } from './frame-processor';
+import { crop, rotate, scale } from './transform';
+
+describe('getProcessedSize', () => {
+  it('keeps the size without processors', () => {
+    expect(getProcessedSize(1920, 1080)).toEqual({ width: 1920, height: 1080 });
+  });
+
+  it('assumes plain functions keep the size', () => {
+    const passThrough: FrameProcessor = async (frame) => frame;
+    expect(getProcessedSize(1920, 1080, [passThrough])).toEqual({ width: 1920, height: 1080 });
+  });
+
+  it('applies each processor in order', () => {
+    expect(getProcessedSize(1920, 1080, [crop({ x: 0, y: 0, width: 1080, height: 720 }), rotate(90)]))
+      .toEqual({ width: 720, height: 1080 });
+    expect(getProcessedSize(1920, 1080, [rotate(270), scale({ width: 640, height: 360 })]))
+      .toEqual({ width: 640, height: 360 });
+  });
+
+  it('only swaps width and height for quarter turns', () => {
+    expect(getProcessedSize(1920, 1080, [rotate(180)])).toEqual({ width: 1920, height: 1080 });
+    expect(getProcessedSize(1920, 1080, [rotate(90), rotate(270)])).toEqual({ width: 1920, height: 1080 });
+  });
+});
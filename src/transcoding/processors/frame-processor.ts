@@ -0,0 +1,79 @@
+/**
+ * A step in the transcode render stage
+ *
+ * A processor owns the frame it's given: it either returns that frame, or closes it
+ * and returns a new one with the same timestamp (so audio stays in sync).
+ *
+ * Processors that change the frame size implement getOutputSize, so the encoder can be
+ * configured for the processed size. Plain functions are assumed to keep the size.
+ */
+export interface FrameProcessor {
+  (frame: VideoFrame): Promise<VideoFrame>;
+  getOutputSize?(width: number, height: number): { width: number; height: number };
+}
+
+/**
+ * Run a frame through each processor in order
+ */
+export async function runProcessors(frame: VideoFrame, processors: FrameProcessor[] = []): Promise<VideoFrame> {
+  let current = frame;
+  for (const processor of processors) {
+    current = await processor(current);
+  }
+  return current;
+}
+
+/**
+ * Size of the frames coming out of the processor chain
+ */
+export function getProcessedSize(
+  width: number,
+  height: number,
+  processors: FrameProcessor[] = []
+): { width: number; height: number } {
+  let size = { width, height };
+  for (const processor of processors) {
+    if (processor.getOutputSize) size = processor.getOutputSize(size.width, size.height);
+  }
+  return size;
+}
+
+/**
+ * Reusable OffscreenCanvas 2D surface for building processors
+ * Resizes itself to each output size, so one instance serves a whole transcode.
+ */
+export class FrameCanvas {
+  private canvas: OffscreenCanvas | null = null;
+  private ctx: OffscreenCanvasRenderingContext2D | null = null;
+
+  /**
+   * Draw into a width x height canvas and turn it into a frame with the source timing
+   * Closes the source frame.
+   */
+  render(
+    frame: VideoFrame,
+    width: number,
+    height: number,
+    draw: (ctx: OffscreenCanvasRenderingContext2D) => void
+  ): VideoFrame {
+    if (!this.canvas || this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas = new OffscreenCanvas(width, height);
+      this.ctx = this.canvas.getContext('2d')!;
+      this.ctx.imageSmoothingQuality = 'high';
+    }
+
+    const ctx = this.ctx!;
+    ctx.save();
+    ctx.clearRect(0, 0, width, height);
+    draw(ctx);
+    ctx.restore();
+
+    const output = new VideoFrame(this.canvas, {
+      timestamp: frame.timestamp,
+      duration: frame.duration ?? undefined,
+    });
+    frame.close();
+
+    return output;
+  }
+}
@@ -0,0 +1,10 @@
+export { runProcessors, getProcessedSize, FrameCanvas } from './frame-processor';
+export type { FrameProcessor } from './frame-processor';
+export { scale, crop, rotate, flip } from './transform';
+export { colorAdjust } from './color';
+export type { ColorAdjustments } from './color';
+export { overlay } from './overlay';
+export type { Overlay, ImageOverlay, TextOverlay, OverlayPosition } from './overlay';
+export type { TextStyle } from './text';
+export { subtitles, createSubtitleProcessor } from './subtitles';
+export type { SubtitleStyle, SubtitleBurnInOptions } from './subtitles';
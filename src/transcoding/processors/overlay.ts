@@ -0,0 +1,114 @@
+import { FrameProcessor, FrameCanvas } from './frame-processor';
+import { TextStyle, measureTextBlock, drawTextBlock } from './text';
+
+/**
+ * Where an overlay sits on the frame - a named corner/center, or pixel coordinates
+ * of the overlay's top-left corner
+ */
+export type OverlayPosition =
+  | 'top-left'
+  | 'top-right'
+  | 'bottom-left'
+  | 'bottom-right'
+  | 'center'
+  | { x: number; y: number };
+
+interface OverlayBase {
+  position?: OverlayPosition;  // Default 'top-left'
+  margin?: number;             // Distance from the frame edge for named positions, default 16
+  opacity?: number;            // 0-1, default 1
+  start?: number;              // Visible from this time (seconds, output timeline)
+  end?: number;                // Hidden from this time (seconds, output timeline)
+}
+
+export interface ImageOverlay extends OverlayBase {
+  type: 'image';
+  image: ImageBitmap | OffscreenCanvas | VideoFrame | HTMLImageElement | HTMLCanvasElement;
+  width?: number;              // Defaults to the image size - if only one is given the aspect ratio is kept
+  height?: number;
+}
+
+export interface TextOverlay extends OverlayBase {
+  type: 'text';
+  text: string | ((time: number) => string);   // A function gets the frame time in seconds (e.g. for a running timestamp)
+  style?: TextStyle;
+}
+
+export type Overlay = ImageOverlay | TextOverlay;
+
+/**
+ * Composite images and text onto frames
+ * Frames keep their timestamps, and are passed through untouched when no overlay is visible.
+ */
+export function overlay(overlays: Overlay[]): FrameProcessor {
+  const surface = new FrameCanvas();
+
+  return async (frame) => {
+    const time = frame.timestamp / 1e6;
+    const visible = overlays.filter((item) => isVisible(item, time));
+    if (visible.length === 0) return frame;
+
+    const width = frame.displayWidth;
+    const height = frame.displayHeight;
+
+    return surface.render(frame, width, height, (ctx) => {
+      ctx.drawImage(frame, 0, 0, width, height);
+
+      for (const item of visible) {
+        ctx.globalAlpha = item.opacity ?? 1;
+
+        if (item.type === 'image') {
+          const size = getImageSize(item);
+          const { x, y } = getPosition(item, size, width, height);
+          ctx.drawImage(item.image, x, y, size.width, size.height);
+        } else {
+          const lines = (typeof item.text === 'function' ? item.text(time) : item.text).split('\n');
+          const style = item.style ?? {};
+          const size = measureTextBlock(ctx, lines, style);
+          const { x, y } = getPosition(item, size, width, height);
+          drawTextBlock(ctx, lines, x, y, style);
+        }
+      }
+    });
+  };
+}
+
+function isVisible(item: Overlay, time: number): boolean {
+  return (item.start === undefined || time >= item.start) && (item.end === undefined || time < item.end);
+}
+
+function getImageSize(item: ImageOverlay): { width: number; height: number } {
+  const source = item.image;
+  const naturalWidth = 'displayWidth' in source ? source.displayWidth : source.width;
+  const naturalHeight = 'displayHeight' in source ? source.displayHeight : source.height;
+
+  if (item.width && item.height) return { width: item.width, height: item.height };
+  if (item.width) return { width: item.width, height: (naturalHeight * item.width) / naturalWidth };
+  if (item.height) return { width: (naturalWidth * item.height) / naturalHeight, height: item.height };
+  return { width: naturalWidth, height: naturalHeight };
+}
+
+function getPosition(
+  item: Overlay,
+  size: { width: number; height: number },
+  frameWidth: number,
+  frameHeight: number
+): { x: number; y: number } {
+  const position = item.position ?? 'top-left';
+  const margin = item.margin ?? 16;
+
+  if (typeof position === 'object') return position;
+
+  switch (position) {
+    case 'top-left':
+      return { x: margin, y: margin };
+    case 'top-right':
+      return { x: frameWidth - size.width - margin, y: margin };
+    case 'bottom-left':
+      return { x: margin, y: frameHeight - size.height - margin };
+    case 'bottom-right':
+      return { x: frameWidth - size.width - margin, y: frameHeight - size.height - margin };
+    case 'center':
+      return { x: (frameWidth - size.width) / 2, y: (frameHeight - size.height) / 2 };
+  }
+}
@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getFrameProcessors } from '../transcode-options';
+import { getTrimRange, trimVideoFrame } from '../trim';
+import { runProcessors } from './frame-processor';
+
+/**
+ * Just enough of VideoFrame and OffscreenCanvas for the render stage to run in Node -
+ * the canvas records the text drawn on it, and frames made from it carry that text
+ */
+class FakeVideoFrame {
+  timestamp: number;
+  duration: number | null;
+  displayWidth = 1280;
+  displayHeight = 720;
+  drawnText: string[];
+
+  constructor(source: { timestamp?: number } | FakeCanvas, init: { timestamp?: number; duration?: number } = {}) {
+    this.timestamp = init.timestamp ?? (<{ timestamp: number }> source).timestamp;
+    this.duration = init.duration ?? null;
+    this.drawnText = source instanceof FakeCanvas ? [...source.drawnText] : [];
+  }
+
+  close() {}
+}
+
+class FakeCanvas {
+  drawnText: string[] = [];
+
+  constructor(public width: number, public height: number) {}
+
+  getContext() {
+    const canvas = this;
+    return new Proxy({}, {
+      get(_, name) {
+        if (name === 'measureText') return (text: string) => ({ width: text.length * 10, fontBoundingBoxAscent: 20, fontBoundingBoxDescent: 5 });
+        if (name === 'fillText') return (text: string) => canvas.drawnText.push(text);
+        if (name === 'clearRect') return () => { canvas.drawnText = []; };
+        return () => {};
+      },
+      set: () => true,
+    });
+  }
+}
+
+const SRT = [
+  '1', '00:00:00,000 --> 00:00:02,000', 'At the start of the file', '',
+  '2', '00:00:10,000 --> 00:00:12,000', 'Ten seconds in', '',
+].join('\n');
+
+/** Text burned into the frame at `sourceTime` seconds, when the file is trimmed to start at `start` */
+async function burnedInText(sourceTime: number, start?: number): Promise<string[] | null> {
+  const options = { start, subtitles: { source: SRT } };
+  const trim = getTrimRange(60, options);
+  const processors = await getFrameProcessors(options, trim);
+
+  const frame = trimVideoFrame(<VideoFrame> <unknown> new FakeVideoFrame({ timestamp: sourceTime * 1e6 }), trim);
+  if (!frame) return null;
+
+  const output = <FakeVideoFrame> <unknown> await runProcessors(frame, processors);
+  return output.drawnText;
+}
+
+describe('subtitle burn-in', () => {
+  beforeEach(() => {
+    vi.stubGlobal('VideoFrame', FakeVideoFrame);
+    vi.stubGlobal('OffscreenCanvas', FakeCanvas);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('looks cues up on the source timeline when trimmed', async () => {
+    // 10.5s into the file is 0.5s into the output
+    expect(await burnedInText(10.5, 10)).toEqual(['Ten seconds in']);
+  });
+
+  it("doesn't show the file's first cue at the start of a trimmed output", async () => {
+    expect(await burnedInText(11, 10)).toEqual(['Ten seconds in']);
+    expect(await burnedInText(13, 10)).toEqual([]);
+  });
+
+  it('uses frame times as-is without a trim', async () => {
+    expect(await burnedInText(1)).toEqual(['At the start of the file']);
+    expect(await burnedInText(11)).toEqual(['Ten seconds in']);
+  });
+});
@@ -0,0 +1,74 @@
+import { SubtitleCue, CueIndex, parseSubtitles } from '../../utils/subtitles';
+import { FrameProcessor, FrameCanvas } from './frame-processor';
+import { drawTextBlock, measureTextBlock } from './text';
+
+/**
+ * Look of burned-in subtitles
+ */
+export interface SubtitleStyle {
+  fontSize?: number;        // Pixels, default frame height / 18
+  fontFamily?: string;      // Default 'sans-serif'
+  color?: string;           // Default 'white'
+  outlineColor?: string;    // Default 'black'
+  outlineWidth?: number;    // Pixels, default fontSize / 12
+  background?: string;      // Box behind the text, default none
+  bottomMargin?: number;    // Pixels from the bottom edge, default frame height / 12
+}
+
+/**
+ * Subtitles to burn in - the contents of an SRT/WebVTT file, or the file itself
+ * Cue times are on the source file's timeline, also when the transcode is trimmed.
+ */
+export interface SubtitleBurnInOptions {
+  source: string | Blob;
+  style?: SubtitleStyle;
+}
+
+/**
+ * Draw the active cues, centered at the bottom of each frame
+ * Frames with no cue showing are passed through untouched.
+ * @param timeOffset - Seconds added to frame times before looking up cues - the trim
+ * start, since trimmed frames are re-timestamped from zero but cues follow the source
+ */
+export function subtitles(cues: SubtitleCue[], style: SubtitleStyle = {}, timeOffset = 0): FrameProcessor {
+  const surface = new FrameCanvas();
+  const index = new CueIndex(cues);
+
+  return async (frame) => {
+    const active = index.getActiveCues(frame.timestamp / 1e6 + timeOffset);
+    if (active.length === 0) return frame;
+
+    const width = frame.displayWidth;
+    const height = frame.displayHeight;
+
+    const fontSize = style.fontSize ?? Math.round(height / 18);
+    const textStyle = {
+      font: `${fontSize}px ${style.fontFamily ?? 'sans-serif'}`,
+      color: style.color ?? 'white',
+      outlineColor: style.outlineColor ?? 'black',
+      outlineWidth: style.outlineWidth ?? fontSize / 12,
+      background: style.background,
+      padding: style.background ? fontSize / 4 : 0,
+      align: <CanvasTextAlign> 'center',
+    };
+    const lines = active.flatMap((cue) => cue.text.split('\n'));
+
+    return surface.render(frame, width, height, (ctx) => {
+      ctx.drawImage(frame, 0, 0, width, height);
+
+      const size = measureTextBlock(ctx, lines, textStyle);
+      const x = (width - size.width) / 2;
+      const y = height - (style.bottomMargin ?? height / 12) - size.height;
+      drawTextBlock(ctx, lines, x, y, textStyle);
+    });
+  };
+}
+
+/**
+ * Read and parse the subtitle file, then build the burn-in processor
+ * @param timeOffset - Trim start in seconds (see subtitles())
+ */
+export async function createSubtitleProcessor(options: SubtitleBurnInOptions, timeOffset = 0): Promise<FrameProcessor> {
+  const text = typeof options.source === 'string' ? options.source : await options.source.text();
+  return subtitles(parseSubtitles(text), options.style, timeOffset);
+}
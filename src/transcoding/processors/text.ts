@@ -0,0 +1,84 @@
+/**
+ * Text drawing shared by the overlay and subtitle processors
+ */
+export interface TextStyle {
+  font?: string;           // CSS font, default '32px sans-serif'
+  color?: string;          // Fill color, default 'white'
+  outlineColor?: string;   // Default 'black'
+  outlineWidth?: number;   // Pixels, default 0 (no outline)
+  background?: string;     // Box behind the text, default none
+  padding?: number;        // Around the text inside the background box, default 0
+  lineHeight?: number;     // Pixels, default 1.2x the font size
+  align?: CanvasTextAlign; // Alignment of lines within the block, default 'left'
+}
+
+/**
+ * Size of a block of lines as drawn by drawTextBlock (padding included)
+ */
+export function measureTextBlock(
+  ctx: OffscreenCanvasRenderingContext2D,
+  lines: string[],
+  style: TextStyle
+): { width: number; height: number } {
+  ctx.font = style.font ?? '32px sans-serif';
+  const padding = style.padding ?? 0;
+  const width = Math.max(0, ...lines.map((line) => ctx.measureText(line).width));
+
+  return {
+    width: width + padding * 2,
+    height: lines.length * getLineHeight(ctx, style) + padding * 2,
+  };
+}
+
+/**
+ * Draw lines of text with their block's top-left corner at (x, y)
+ */
+export function drawTextBlock(
+  ctx: OffscreenCanvasRenderingContext2D,
+  lines: string[],
+  x: number,
+  y: number,
+  style: TextStyle
+): void {
+  const { width, height } = measureTextBlock(ctx, lines, style);
+  const padding = style.padding ?? 0;
+  const lineHeight = getLineHeight(ctx, style);
+  const align = style.align ?? 'left';
+
+  ctx.save();
+
+  if (style.background) {
+    ctx.fillStyle = style.background;
+    ctx.fillRect(x, y, width, height);
+  }
+
+  ctx.font = style.font ?? '32px sans-serif';
+  ctx.textAlign = align;
+  ctx.textBaseline = 'middle';
+  ctx.lineJoin = 'round';
+
+  const textX = align === 'center' ? x + width / 2 : align === 'right' ? x + width - padding : x + padding;
+
+  lines.forEach((line, i) => {
+    const textY = y + padding + lineHeight * (i + 0.5);
+
+    if (style.outlineWidth) {
+      ctx.strokeStyle = style.outlineColor ?? 'black';
+      ctx.lineWidth = style.outlineWidth * 2; // Half of the stroke is covered by the fill
+      ctx.strokeText(line, textX, textY);
+    }
+
+    ctx.fillStyle = style.color ?? 'white';
+    ctx.fillText(line, textX, textY);
+  });
+
+  ctx.restore();
+}
+
+function getLineHeight(ctx: OffscreenCanvasRenderingContext2D, style: TextStyle): number {
+  if (style.lineHeight) return style.lineHeight;
+
+  // Font size from the CSS font string, e.g. 'bold 32px sans-serif'
+  const match = /(\d+(?:\.\d+)?)px/.exec(ctx.font);
+  return (match ? parseFloat(match[1]) : 32) * 1.2;
+}
@@ -0,0 +1,89 @@
+import { FrameProcessor, FrameCanvas } from './frame-processor';
+
+/**
+ * Scale frames to a fixed size (no aspect ratio correction)
+ */
+export function scale(options: { width: number; height: number }): FrameProcessor {
+  const surface = new FrameCanvas();
+  const { width, height } = options;
+
+  const processor: FrameProcessor = async (frame) => {
+    if (frame.displayWidth === width && frame.displayHeight === height) return frame;
+
+    return surface.render(frame, width, height, (ctx) => {
+      ctx.drawImage(frame, 0, 0, width, height);
+    });
+  };
+  processor.getOutputSize = () => ({ width, height });
+
+  return processor;
+}
+
+/**
+ * Crop frames to a rectangle, in source pixels
+ */
+export function crop(options: { x: number; y: number; width: number; height: number }): FrameProcessor {
+  const surface = new FrameCanvas();
+  const { x, y, width, height } = options;
+
+  if (width <= 0 || height <= 0) {
+    throw new Error(`Crop size must be positive, got ${width}x${height}`);
+  }
+
+  const processor: FrameProcessor = async (frame) => {
+    return surface.render(frame, width, height, (ctx) => {
+      ctx.drawImage(frame, x, y, width, height, 0, 0, width, height);
+    });
+  };
+  processor.getOutputSize = () => ({ width, height });
+
+  return processor;
+}
+
+/**
+ * Rotate frames clockwise by a multiple of 90 degrees
+ */
+export function rotate(degrees: 90 | 180 | 270): FrameProcessor {
+  if (![90, 180, 270].includes(degrees)) {
+    throw new Error(`Rotation must be 90, 180 or 270 degrees, got ${degrees}`);
+  }
+
+  const surface = new FrameCanvas();
+  const swapsSize = degrees === 90 || degrees === 270;
+
+  const processor: FrameProcessor = async (frame) => {
+    const width = swapsSize ? frame.displayHeight : frame.displayWidth;
+    const height = swapsSize ? frame.displayWidth : frame.displayHeight;
+
+    return surface.render(frame, width, height, (ctx) => {
+      ctx.translate(width / 2, height / 2);
+      ctx.rotate((degrees * Math.PI) / 180);
+      ctx.drawImage(frame, -frame.displayWidth / 2, -frame.displayHeight / 2, frame.displayWidth, frame.displayHeight);
+    });
+  };
+  processor.getOutputSize = (width, height) => (swapsSize ? { width: height, height: width } : { width, height });
+
+  return processor;
+}
+
+/**
+ * Mirror frames horizontally and/or vertically
+ */
+export function flip(options: { horizontal?: boolean; vertical?: boolean }): FrameProcessor {
+  const surface = new FrameCanvas();
+  const scaleX = options.horizontal ? -1 : 1;
+  const scaleY = options.vertical ? -1 : 1;
+
+  return async (frame) => {
+    if (scaleX === 1 && scaleY === 1) return frame;
+
+    const width = frame.displayWidth;
+    const height = frame.displayHeight;
+
+    return surface.render(frame, width, height, (ctx) => {
+      ctx.translate(scaleX < 0 ? width : 0, scaleY < 0 ? height : 0);
+      ctx.scale(scaleX, scaleY);
+      ctx.drawImage(frame, 0, 0, width, height);
+    });
+  };
+}
@@ -0,0 +1,442 @@
+import { MP4Demuxer, getBitrate } from 'webcodecs-utils';
+import { Muxer, ArrayBufferTarget } from 'mp4-muxer';
+import { TrimRange } from './trim';
+import { VideoOutputCodec } from './video-output';
+import { createAbortError } from './transcode-options';
+
+/**
+ * Smart-cut trimming
+ *
+ * Copies EncodedVideoChunks untouched between keyframes and only re-encodes the
+ * partial GOPs at the head (lead-in keyframe → start) and tail (last keyframe → end).
+ *
+ *   source:   K....K.......K.......K....
+ *   range:      [start              end]
+ *   output:     eee|ccccccc|ccccccc|eee
+ *               (e = re-encoded, c = copied)
+ *
+ * Re-encoded sections use the source codec and size so they can share a track with the
+ * copied chunks. For H.264 / HEVC the encoder writes Annex B so its parameter sets stay
+ * in-band, and the source parameter sets are put back in front of the first copied keyframe.
+ *
+ * Assumes closed GOPs without B-frames (what WebCodecs and most screen/webcam recorders
+ * produce). Anything else falls back to a full re-encode.
+ */
+
+/**
+ * Everything needed to smart-cut a video track
+ */
+export interface SmartCutPlan {
+  codec: VideoOutputCodec;                // Codec for the muxer
+  width: number;
+  height: number;
+  decoderConfig: VideoDecoderConfig;      // Source config - also the config written to the output track
+  encoderConfig: VideoEncoderConfig;      // For the re-encoded head / tail
+  chunks: EncodedVideoChunk[];            // From the keyframe before start up to end
+  headEnd: number;                        // chunks[0, headEnd) are re-encoded
+  tailStart: number;                      // chunks[headEnd, tailStart) are copied, the rest re-encoded
+}
+
+/**
+ * Map a source codec string to a codec mp4-muxer can write
+ */
+function getSourceCodec(codec: string): VideoOutputCodec | null {
+  if (codec.startsWith('avc1') || codec.startsWith('avc3')) return 'avc';
+  if (codec.startsWith('hvc1') || codec.startsWith('hev1')) return 'hevc';
+  if (codec.startsWith('vp09')) return 'vp9';
+  if (codec.startsWith('av01')) return 'av1';
+  return null;
+}
+
+/**
+ * Check whether the video track can be smart-cut and work out which chunks to copy
+ * @param duration - Source duration in seconds (a range ending there has a complete last GOP)
+ * @returns null if smart cut isn't possible - the caller should re-encode instead
+ */
+export async function getSmartCutPlan(
+  demuxer: MP4Demuxer,
+  trim: TrimRange,
+  duration: number
+): Promise<SmartCutPlan | null> {
+  const track = demuxer.getTracks().video;
+  const decoderConfig = demuxer.getVideoDecoderConfig();
+
+  const codec = getSourceCodec(decoderConfig.codec);
+  if (!codec) {
+    console.warn(`Smart cut: can't copy ${decoderConfig.codec} into an MP4, falling back to a full re-encode`);
+    return null;
+  }
+
+  const width = track.codedWidth;
+  const height = track.codedHeight;
+  const framerate = track.frameRate || 30;
+
+  const encoderConfig = <VideoEncoderConfig> {
+    codec: decoderConfig.codec,
+    width,
+    height,
+    bitrate: Math.round(getBitrate(width, height, framerate, 'high')),
+    framerate,
+    // Keep parameter sets in-band so the re-encoded GOPs decode with the source track config
+    ...(codec === 'avc' ? { avc: { format: 'annexb' } } : {}),
+    ...(codec === 'hevc' ? { hevc: { format: 'annexb' } } : {}),
+  };
+
+  const support = await VideoEncoder.isConfigSupported(encoderConfig);
+  if (!support.supported) {
+    console.warn(`Smart cut: can't encode ${decoderConfig.codec}, falling back to a full re-encode`);
+    return null;
+  }
+
+  // Starts at the keyframe before trim.start
+  const chunks = await demuxer.extractSegment('video', trim.start / 1e6, trim.end / 1e6);
+
+  if (hasReorderedFrames(chunks)) {
+    console.warn('Smart cut: source has B-frames, falling back to a full re-encode');
+    return null;
+  }
+
+  const keyframes = chunks
+    .map((chunk, index) => (chunk.type === 'key' ? index : -1))
+    .filter((index) => index >= 0);
+
+  // First keyframe at or after start - everything before it is the head
+  const headEnd = keyframes.find((index) => chunks[index].timestamp >= trim.start) ?? chunks.length;
+
+  // The last GOP is cut short by end unless the range runs to the end of the file
+  const lastKeyframe = keyframes[keyframes.length - 1];
+  const lastGopComplete = trim.end >= Math.round(duration * 1e6);
+  const tailStart = lastGopComplete || lastKeyframe === undefined ? chunks.length : Math.max(lastKeyframe, headEnd);
+
+  return { codec, width, height, decoderConfig, encoderConfig, chunks, headEnd, tailStart };
+}
+
+/**
+ * Smart-cut the video track into the muxer
+ * @param onChunk - Called with the number of chunks written so far, after each one
+ */
+export async function smartCutVideoTrack(
+  plan: SmartCutPlan,
+  muxer: Muxer<ArrayBufferTarget>,
+  trim: TrimRange,
+  signal?: AbortSignal,
+  onChunk?: (count: number) => void
+): Promise<void> {
+  const { chunks, headEnd, tailStart } = plan;
+
+  console.log(`Smart cut: re-encoding ${headEnd} head chunks, copying ${tailStart - headEnd}, re-encoding ${chunks.length - tailStart} tail chunks`);
+
+  const writer = new SmartCutWriter(muxer, plan, onChunk);
+
+  // Head: decode from the lead-in keyframe, keep frames from start up to the first copied keyframe
+  if (headEnd > 0) {
+    const headTo = headEnd < chunks.length ? chunks[headEnd].timestamp : trim.end;
+    await reencodeChunks(chunks.slice(0, headEnd), plan, trim.start, headTo, trim.start, writer, signal);
+  }
+
+  // Middle: whole GOPs copied as-is
+  for (let i = headEnd; i < tailStart; i++) {
+    if (signal?.aborted) throw createAbortError();
+    writer.addCopiedChunk(chunks[i], trim.start);
+  }
+
+  // Tail: the GOP that runs past end
+  if (tailStart < chunks.length) {
+    await reencodeChunks(chunks.slice(tailStart), plan, chunks[tailStart].timestamp, trim.end, trim.start, writer, signal);
+  }
+}
+
+/**
+ * Presentation order differs from decode order when there are B-frames
+ */
+function hasReorderedFrames(chunks: EncodedVideoChunk[]): boolean {
+  for (let i = 1; i < chunks.length; i++) {
+    if (chunks[i].timestamp < chunks[i - 1].timestamp) return true;
+  }
+  return false;
+}
+
+/**
+ * Decode chunks and re-encode the frames in [from, to), shifted back by offset
+ */
+async function reencodeChunks(
+  chunks: EncodedVideoChunk[],
+  plan: SmartCutPlan,
+  from: number,
+  to: number,
+  offset: number,
+  writer: SmartCutWriter,
+  signal?: AbortSignal
+): Promise<void> {
+  let encodedCount = 0;
+  let error: unknown = null;
+
+  const encoder = new VideoEncoder({
+    output(chunk) {
+      writer.addEncodedChunk(chunk);
+    },
+    error(e) {
+      console.error('Smart cut encoder error:', e);
+      error = e;
+    },
+  });
+
+  const decoder = new VideoDecoder({
+    output(frame) {
+      if (frame.timestamp < from || frame.timestamp >= to) {
+        frame.close();
+        return;
+      }
+
+      const shifted = new VideoFrame(frame, {
+        timestamp: frame.timestamp - offset,
+        duration: frame.duration ?? undefined,
+      });
+      frame.close();
+
+      // Every re-encoded section starts with a keyframe
+      encoder.encode(shifted, { keyFrame: encodedCount === 0 });
+      shifted.close();
+      encodedCount++;
+    },
+    error(e) {
+      console.error('Smart cut decoder error:', e);
+      error = e;
+    },
+  });
+
+  encoder.configure(plan.encoderConfig);
+  decoder.configure(plan.decoderConfig);
+
+  // Closing the codecs makes the pending flush() calls reject
+  const onAbort = () => {
+    if (decoder.state !== 'closed') decoder.close();
+    if (encoder.state !== 'closed') encoder.close();
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    for (const chunk of chunks) {
+      if (signal?.aborted) throw createAbortError();
+      if (error) throw error;
+
+      // Keep the encoder from falling behind the decoder
+      while (encoder.encodeQueueSize >= 20 || decoder.decodeQueueSize >= 20) {
+        await new Promise((r) => setTimeout(r, 10));
+      }
+
+      decoder.decode(chunk);
+    }
+
+    await decoder.flush();
+    await encoder.flush();
+    if (error) throw error;
+  } catch (e) {
+    if (signal?.aborted) throw createAbortError();
+    throw e;
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    if (decoder.state !== 'closed') decoder.close();
+    if (encoder.state !== 'closed') encoder.close();
+  }
+}
+
+/**
+ * Writes re-encoded and copied chunks to one muxer track
+ * The track is described by the source decoder config, whichever kind of chunk comes first.
+ */
+class SmartCutWriter {
+  private muxer: Muxer<ArrayBufferTarget>;
+  private plan: SmartCutPlan;
+  private meta: EncodedVideoChunkMetadata | undefined;
+  private lengthSize: number;                 // NAL length prefix size (H.264 / HEVC)
+  private parameterSets: Uint8Array[];        // Source SPS/PPS(/VPS), without length prefix
+  private afterReencode = false;              // Next copied keyframe needs the source parameter sets
+  private count = 0;
+  private onChunk?: (count: number) => void;
+
+  constructor(muxer: Muxer<ArrayBufferTarget>, plan: SmartCutPlan, onChunk?: (count: number) => void) {
+    this.muxer = muxer;
+    this.plan = plan;
+    this.onChunk = onChunk;
+    this.meta = {
+      decoderConfig: plan.codec === 'vp9'
+        ? { ...plan.decoderConfig, colorSpace: plan.decoderConfig.colorSpace ?? getVP9ColorSpace(plan.decoderConfig.description) }
+        : plan.decoderConfig,
+    };
+
+    const description = plan.decoderConfig.description
+      ? toUint8Array(plan.decoderConfig.description)
+      : null;
+
+    const parsed = description ? parseParameterSets(plan.codec, description) : null;
+    this.lengthSize = parsed?.lengthSize ?? 4;
+    this.parameterSets = parsed?.parameterSets ?? [];
+  }
+
+  addEncodedChunk(chunk: EncodedVideoChunk) {
+    let data: Uint8Array = new Uint8Array(chunk.byteLength);
+    chunk.copyTo(data);
+
+    // Annex B start codes → the length prefixes the source track uses
+    if (this.plan.codec === 'avc' || this.plan.codec === 'hevc') {
+      data = annexBToLengthPrefixed(data, this.lengthSize);
+    }
+
+    this.write(data, chunk.type, chunk.timestamp, chunk.duration);
+    this.afterReencode = true;
+  }
+
+  addCopiedChunk(chunk: EncodedVideoChunk, offset: number) {
+    let data: Uint8Array = new Uint8Array(chunk.byteLength);
+    chunk.copyTo(data);
+
+    // Switch the decoder back from the re-encoded parameter sets to the source ones
+    if (this.afterReencode && chunk.type === 'key' && this.parameterSets.length > 0) {
+      data = concat([...this.parameterSets.map((nal) => lengthPrefix(nal, this.lengthSize)), data]);
+    }
+    this.afterReencode = false;
+
+    this.write(data, chunk.type, chunk.timestamp - offset, chunk.duration);
+  }
+
+  private write(data: Uint8Array, type: EncodedVideoChunkType, timestamp: number, duration: number | null) {
+    this.muxer.addVideoChunkRaw(data, type, timestamp, duration ?? 0, this.meta);
+
+    // Only the first chunk describes the track
+    this.meta = undefined;
+
+    this.onChunk?.(++this.count);
+  }
+}
+
+/**
+ * Pull the parameter sets out of an avcC / hvcC box
+ */
+function parseParameterSets(
+  codec: VideoOutputCodec,
+  description: Uint8Array
+): { lengthSize: number; parameterSets: Uint8Array[] } | null {
+  const parameterSets: Uint8Array[] = [];
+
+  if (codec === 'avc') {
+    // avcC: version, profile, compat, level, lengthSizeMinusOne, numSPS, [len, sps]..., numPPS, [len, pps]...
+    const lengthSize = (description[4] & 0x03) + 1;
+    let offset = 5;
+
+    for (const countMask of [0x1f, 0xff]) {
+      const count = description[offset++] & countMask;
+      for (let i = 0; i < count; i++) {
+        const length = (description[offset] << 8) | description[offset + 1];
+        parameterSets.push(description.subarray(offset + 2, offset + 2 + length));
+        offset += 2 + length;
+      }
+    }
+
+    return { lengthSize, parameterSets };
+  }
+
+  if (codec === 'hevc') {
+    // hvcC: 21 bytes of profile info, lengthSizeMinusOne, numArrays, [type, numNalus, [len, nal]...]...
+    const lengthSize = (description[21] & 0x03) + 1;
+    const arrays = description[22];
+    let offset = 23;
+
+    for (let a = 0; a < arrays; a++) {
+      const count = (description[offset + 1] << 8) | description[offset + 2];
+      offset += 3;
+      for (let i = 0; i < count; i++) {
+        const length = (description[offset] << 8) | description[offset + 1];
+        parameterSets.push(description.subarray(offset + 2, offset + 2 + length));
+        offset += 2 + length;
+      }
+    }
+
+    return { lengthSize, parameterSets };
+  }
+
+  // VP9 / AV1 keyframes carry their own headers
+  return null;
+}
+
+// ISO/IEC 23091-2 code points mp4-muxer can write, by WebCodecs name
+const COLOR_PRIMARIES: Record<number, VideoColorPrimaries> = { 1: 'bt709', 5: 'bt470bg', 6: 'smpte170m' };
+const TRANSFER_CHARACTERISTICS: Record<number, VideoTransferCharacteristics> = { 1: 'bt709', 6: 'smpte170m', 13: 'iec61966-2-1' };
+const MATRIX_COEFFICIENTS: Record<number, VideoMatrixCoefficients> = { 0: 'rgb', 1: 'bt709', 5: 'bt470bg', 6: 'smpte170m' };
+
+/**
+ * Colour info for a VP9 track, read from the source vpcC box
+ *
+ * mp4-muxer needs a colorSpace to write the output vpcC, and MP4Demuxer's decoder
+ * config doesn't have one. Anything missing or not writable falls back to BT.709.
+ * @param description - vpcC box from version / flags on
+ */
+function getVP9ColorSpace(description?: AllowSharedBufferSource): VideoColorSpaceInit {
+  const vpcC = description ? toUint8Array(description) : null;
+
+  // version 1: version, flags(3), profile, level, bitDepth|chroma|fullRange, primaries, transfer, matrix
+  if (!vpcC || vpcC[0] !== 1 || vpcC.length < 10) {
+    return { primaries: 'bt709', transfer: 'bt709', matrix: 'bt709', fullRange: false };
+  }
+
+  return {
+    primaries: COLOR_PRIMARIES[vpcC[7]] ?? 'bt709',
+    transfer: TRANSFER_CHARACTERISTICS[vpcC[8]] ?? 'bt709',
+    matrix: MATRIX_COEFFICIENTS[vpcC[9]] ?? 'bt709',
+    fullRange: (vpcC[6] & 0x01) === 1,
+  };
+}
+
+/**
+ * Split Annex B data on 00 00 01 / 00 00 00 01 start codes and length-prefix each NAL unit
+ */
+function annexBToLengthPrefixed(data: Uint8Array, lengthSize: number): Uint8Array {
+  const nals: Uint8Array[] = [];
+  let start = -1;
+  let i = 0;
+
+  while (i + 2 < data.length) {
+    if (data[i] === 0 && data[i + 1] === 0 && data[i + 2] === 1) {
+      if (start >= 0) {
+        // A 4-byte start code leaves a trailing zero on the previous NAL
+        let end = i;
+        if (end > start && data[end - 1] === 0) end--;
+        nals.push(data.subarray(start, end));
+      }
+      i += 3;
+      start = i;
+    } else {
+      i++;
+    }
+  }
+
+  if (start < 0) return data; // Already length-prefixed
+  nals.push(data.subarray(start));
+
+  return concat(nals.map((nal) => lengthPrefix(nal, lengthSize)));
+}
+
+function lengthPrefix(nal: Uint8Array, lengthSize: number): Uint8Array {
+  const out = new Uint8Array(lengthSize + nal.length);
+  for (let i = 0; i < lengthSize; i++) {
+    out[i] = (nal.length >>> (8 * (lengthSize - 1 - i))) & 0xff;
+  }
+  out.set(nal, lengthSize);
+  return out;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function toUint8Array(source: AllowSharedBufferSource): Uint8Array {
+  if (source instanceof Uint8Array) return source;
+  if (ArrayBuffer.isView(source)) return new Uint8Array(source.buffer, source.byteOffset, source.byteLength);
+  return new Uint8Array(source);
+}
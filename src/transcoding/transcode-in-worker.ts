@@ -0,0 +1,56 @@
+import { WorkerController } from '../utils/WorkerController';
+import { TranscodeFileOptions } from './transcoder';
+import { TranscodeProgress } from './transcode-pipeline';
+import { createAbortError, throwIfAborted } from './transcode-options';
+import TranscodeWorker from './transcode.worker.ts?worker&inline';
+
+interface TranscodeWorkerResult {
+  blob?: Blob;
+  error?: string;
+  name?: string;
+}
+
+/**
+ * Transcode a file in a dedicated worker
+ * Same options as transcodeFile (except processors) - pipelineOptions.onProgress
+ * is called with progress events streamed back from the worker.
+ */
+export async function transcodeInWorker(file: File, options: TranscodeFileOptions = {}): Promise<Blob> {
+  const { signal, ...workerOptions } = options;
+  throwIfAborted(signal);
+
+  if (options.processors?.length) {
+    throw new Error('Frame processors are functions and can\'t be sent to a worker - use transcodeFile instead');
+  }
+
+  const worker = new WorkerController(TranscodeWorker, ['progress']);
+
+  const onProgress = options.pipelineOptions?.onProgress;
+  if (onProgress) {
+    worker.addPersistentListener('progress', (progress: TranscodeProgress) => onProgress(progress));
+  }
+
+  // AbortSignal can't be posted to a worker - forward the abort as a command
+  const onAbort = () => {
+    worker.sendMessage('cancel');
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    // Functions (onProgress) are stripped when the options are sanitized for the worker
+    const result = await worker.sendMessage<TranscodeWorkerResult>('transcode', {
+      file,
+      options: workerOptions,
+    });
+
+    if (result.error) {
+      if (result.name === 'AbortError') throw createAbortError();
+      throw new Error(result.error);
+    }
+
+    return result.blob!;
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    worker.terminate();
+  }
+}
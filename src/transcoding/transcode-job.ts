@@ -0,0 +1,107 @@
+import EventEmitter from '../utils/EventEmitter';
+import { transcodeFile, TranscodeFileOptions } from './transcoder';
+import { createAbortError } from './transcode-options';
+
+export type TranscodeJobStatus = 'queued' | 'running' | 'done' | 'error' | 'cancelled';
+
+/**
+ * A single transcode with its own pipeline state and AbortController
+ * Jobs are independent, so several can run at the same time (see TranscodeQueue)
+ *
+ * Events:
+ * - 'statuschange': TranscodeJobStatus
+ * - 'progress': TranscodeProgress
+ */
+export class TranscodeJob extends EventEmitter {
+  readonly file: File;
+  status: TranscodeJobStatus = 'queued';
+  result: Blob | null = null;
+  error: unknown = null;
+
+  /** Resolves with the output once the job finishes, rejects if it fails or is cancelled */
+  readonly finished: Promise<Blob>;
+
+  private options: TranscodeFileOptions;
+  private abortController = new AbortController();
+  private started = false;
+  private resolveFinished!: (blob: Blob) => void;
+  private rejectFinished!: (error: unknown) => void;
+
+  constructor(file: File, options: TranscodeFileOptions = {}) {
+    super();
+    this.file = file;
+    this.options = options;
+
+    this.finished = new Promise<Blob>((resolve, reject) => {
+      this.resolveFinished = resolve;
+      this.rejectFinished = reject;
+    });
+    // Cancelling a queued job nobody awaits shouldn't surface as an unhandled rejection
+    this.finished.catch(() => {});
+
+    // A caller-provided signal cancels the job like cancel() does
+    if (options.signal?.aborted) {
+      this.cancel();
+    } else {
+      options.signal?.addEventListener('abort', () => this.cancel(), { once: true });
+    }
+  }
+
+  /**
+   * Start the transcode - calling it again returns the same promise
+   */
+  start(): Promise<Blob> {
+    if (!this.started && this.status === 'queued') {
+      this.started = true;
+      this.run();
+    }
+    return this.finished;
+  }
+
+  /**
+   * Cancel the job - a queued job never starts, a running one rejects with an AbortError
+   */
+  cancel(): void {
+    if (this.status === 'done' || this.status === 'error' || this.status === 'cancelled') return;
+
+    this.abortController.abort();
+
+    if (this.status === 'queued') {
+      this.setStatus('cancelled');
+      this.rejectFinished(createAbortError());
+    }
+  }
+
+  private async run(): Promise<void> {
+    this.setStatus('running');
+
+    const pipelineOptions = this.options.pipelineOptions;
+
+    try {
+      const blob = await transcodeFile(this.file, {
+        ...this.options,
+        signal: this.abortController.signal,
+        pipelineOptions: {
+          ...pipelineOptions,
+          onProgress: (progress) => {
+            pipelineOptions?.onProgress?.(progress);
+            this.emit('progress', progress);
+          },
+        },
+      });
+
+      this.result = blob;
+      this.setStatus('done');
+      this.resolveFinished(blob);
+    } catch (e) {
+      this.error = e;
+      this.setStatus(this.abortController.signal.aborted ? 'cancelled' : 'error');
+      this.rejectFinished(e);
+    }
+  }
+
+  private setStatus(status: TranscodeJobStatus) {
+    this.status = status;
+    this.emit('statuschange', status);
+  }
+}
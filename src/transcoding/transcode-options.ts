@@ -0,0 +1,89 @@
+import type { VideoOutputOptions } from './video-output';
+import type { FrameProcessor } from './processors';
+import type { TrimRange } from './trim';
+import { SubtitleBurnInOptions, createSubtitleProcessor } from './processors/subtitles';
+
+export type TrimMode = 'reencode' | 'smart';
+
+/**
+ * Options shared by every transcode method (promise and pipeline)
+ */
+export interface TranscodeOptions {
+  /** Output codec, resolution, bitrate/quality, framerate and keyframe interval */
+  video?: VideoOutputOptions;
+  /** Render stage - each frame goes through these in order, before scaling to the output size */
+  processors?: FrameProcessor[];
+  /** SRT / WebVTT subtitles to burn in, drawn after the processors - cue times follow the source, not the trimmed output */
+  subtitles?: SubtitleBurnInOptions;
+  /** Drop the audio track - output is a muted video */
+  stripAudio?: boolean;
+  /** Drop the video track - output is an audio-only .m4a */
+  stripVideo?: boolean;
+  /** Trim start in seconds - decoding starts at the preceding keyframe */
+  start?: number;
+  /** Trim end in seconds */
+  end?: number;
+  /**
+   * How to trim (default 'reencode'). 'smart' copies whole GOPs and only re-encodes the
+   * partial ones at each end - falls back to a full re-encode if the source doesn't allow it
+   */
+  trimMode?: TrimMode;
+  /** Cancel the transcode - codecs are closed and the promise rejects with an AbortError */
+  signal?: AbortSignal;
+}
+
+/**
+ * Work out which tracks end up in the output
+ * @param hasVideo - Source file has a video track
+ * @param hasAudio - Source file has an audio track
+ * @throws Error if the options leave nothing to transcode
+ */
+export function getOutputTracks(
+  hasVideo: boolean,
+  hasAudio: boolean,
+  options?: TranscodeOptions
+): { video: boolean; audio: boolean } {
+  const video = hasVideo && !options?.stripVideo;
+  const audio = hasAudio && !options?.stripAudio;
+
+  if (!video && !audio) {
+    throw new Error('Nothing to transcode: no video or audio track left after applying options');
+  }
+
+  return { video, audio };
+}
+
+/**
+ * MIME type of the output Blob - audio-only output is an .m4a
+ */
+export function getOutputMimeType(tracks: { video: boolean }): string {
+  return tracks.video ? 'video/mp4' : 'audio/mp4';
+}
+
+/**
+ * The error a cancelled transcode rejects with
+ */
+export function createAbortError(): DOMException {
+  return new DOMException('Transcode aborted', 'AbortError');
+}
+
+/**
+ * Throw an AbortError if the signal has been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw createAbortError();
+}
+
+/**
+ * The render stage processors: the caller's, then subtitle burn-in (if any)
+ * @param trim - Frames reach the processors re-timestamped from the trim start
+ */
+export async function getFrameProcessors(options?: TranscodeOptions, trim?: TrimRange | null): Promise<FrameProcessor[]> {
+  const processors = [...(options?.processors ?? [])];
+
+  if (options?.subtitles) {
+    processors.push(await createSubtitleProcessor(options.subtitles, trim ? trim.start / 1e6 : 0));
+  }
+
+  return processors;
+}
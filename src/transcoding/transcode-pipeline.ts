@@ -1,6 +1,15 @@
-import { getBitrate, InMemoryStorage, getCodecString } from 'webcodecs-utils';
+import { InMemoryStorage } from 'webcodecs-utils';
 import { WebDemuxer } from "web-demuxer";
 import { Muxer, StreamTarget } from 'mp4-muxer';
+import { TranscodeOptions, getOutputTracks, getOutputMimeType, createAbortError, throwIfAborted, getFrameProcessors } from './transcode-options';
+import { getAudioOutputPlan } from './audio-codec-support';
+import { AudioDecoderStream } from './audio-decoder-stream';
+import { AudioResampleStream } from './audio-resample-stream';
+import { AudioEncoderStream } from './audio-encoder-stream';
+import { getVideoOutputSettings, FrameRateLimiter } from './video-output';
+import { FrameScaler } from './frame-scaler';
+import { TrimRange, getTrimRange, trimVideoFrame, AudioTrimStream } from './trim';
+import { FrameProcessor, runProcessors, getProcessedSize } from './processors';
 
 /**
  * Transcoding implementation - Streams Pipeline pattern
@@ -16,13 +25,27 @@ import { Muxer, StreamTarget } from 'mp4-muxer';
  * - More complex than Promise pattern but theoretically cleaner
  */
 
-// Global references to access queue sizes and buffer state
-let decoder: VideoDecoder;
-let encoder: VideoEncoder;
-let demuxerController: TransformStreamDefaultController<EncodedVideoChunk>;
-let decoderController: TransformStreamDefaultController<VideoFrame>;
-let renderController: TransformStreamDefaultController<VideoFrame>;
-let encoderController: TransformStreamDefaultController<{ chunk: EncodedVideoChunk; meta: EncodedVideoChunkMetadata }>;
+/**
+ * State shared by the stages of one transcode
+ * Each transcodePipeline() call gets its own, so concurrent transcodes don't
+ * read each other's queue sizes and buffers.
+ *
+ * Frames are tracked from decode until they're closed, so an abort can
+ * close frames that are still sitting in the TransformStream queues
+ */
+interface PipelineState {
+  // References to access queue sizes and buffer state for progress reporting
+  decoder?: VideoDecoder;
+  encoder?: VideoEncoder;
+  demuxerController?: TransformStreamDefaultController<{ chunk: EncodedVideoChunk; index: number }>;
+  decoderController?: TransformStreamDefaultController<{ frame: VideoFrame; index: number }>;
+  renderController?: TransformStreamDefaultController<{ frame: VideoFrame; index: number }>;
+  encoderController?: TransformStreamDefaultController<{ chunk: EncodedVideoChunk; meta: EncodedVideoChunkMetadata }>;
+
+  // Cancellation
+  signal?: AbortSignal;
+  liveFrames: Set<VideoFrame>;
+}
 
 /**
  * TransformStream that tracks demuxed chunks before decoding
@@ -30,15 +53,14 @@ let encoderController: TransformStreamDefaultController<{ chunk: EncodedVideoChu
  * Adds frame index to each chunk
  */
 class DemuxerTrackingStream extends TransformStream<EncodedVideoChunk, { chunk: EncodedVideoChunk; index: number }> {
-  constructor() {
+  constructor(state: PipelineState) {
     let chunkIndex = 0;
 
     super(
       {
         start(controller) {
           // Save controller reference for progress reporting
-          //@ts-expect-error
-          demuxerController = controller;
+          state.demuxerController = controller;
         },
 
         async transform(chunk, controller) {
@@ -62,24 +84,25 @@ class DemuxerTrackingStream extends TransformStream<EncodedVideoChunk, { chunk:
  * Passes frame index through
  */
 class VideoDecoderStream extends TransformStream<{ chunk: EncodedVideoChunk; index: number }, { frame: VideoFrame; index: number }> {
-  constructor(config: VideoDecoderConfig) {
+  constructor(config: VideoDecoderConfig, state: PipelineState) {
     // Declare variables in closure scope
     let warmupItems: { chunk: EncodedVideoChunk; index: number }[] = [];
     let warmupComplete = false;
     const WARMUP_SIZE = 1;
     let pendingIndices: number[] = [];
+    let decoder: VideoDecoder;
 
     super(
       {
         start(controller) {
           // Save controller reference for progress reporting
-          //@ts-expect-error
-          decoderController = controller;
+          state.decoderController = controller;
 
           decoder = new VideoDecoder({
             output: (frame) => {
               // Match frame with its index (FIFO order)
               const index = pendingIndices.shift()!;
+              state.liveFrames.add(frame);
               controller.enqueue({ frame, index });
             },
             error: (e) => {
@@ -89,6 +112,12 @@ class VideoDecoderStream extends TransformStream<{ chunk: EncodedVideoChunk; ind
           });
 
           decoder.configure(config);
+          state.decoder = decoder;
+
+          // Tear down the decoder straight away on abort - don't wait for the stream to drain
+          state.signal?.addEventListener('abort', () => {
+            if (decoder.state !== 'closed') decoder.close();
+          }, { once: true });
         },
 
         async transform(item, controller) {
@@ -128,51 +157,74 @@ class VideoDecoderStream extends TransformStream<{ chunk: EncodedVideoChunk; ind
 
 /**
  * TransformStream that processes/renders video frames
- * Placeholder for GPU processing, filters, upscaling, etc.
+ * Trims to the requested range, drops frames to reach the output frame rate,
+ * runs the frame processors and scales to the output size
  * Passes frame index through
  */
 class VideoRenderStream extends TransformStream<{ frame: VideoFrame; index: number }, { frame: VideoFrame; index: number }> {
-  constructor() {
+  constructor(
+    width: number,
+    height: number,
+    framerate: number | undefined,
+    trim: TrimRange | null,
+    processors: FrameProcessor[],
+    state: PipelineState
+  ) {
+    const scaler = new FrameScaler(width, height);
+    const limiter = new FrameRateLimiter(framerate);
+
     super(
       {
         start(controller){
           // Save controller reference for progress reporting
-          //@ts-expect-error
-          renderController = controller;
+          state.renderController = controller;
         },
 
         async transform(item, controller) {
-          // Placeholder: currently just passes through
-          // TODO: Add WebGPU processing, filters, etc.
-          controller.enqueue(item);
+          // Discard the lead-in before the trim start, re-timestamp the rest from zero
+          state.liveFrames.delete(item.frame);
+          const frame = trimVideoFrame(item.frame, trim);
+          if (!frame) return;
+
+          // Drop frames above the target frame rate
+          if (!limiter.keep(frame.timestamp)) {
+            frame.close();
+            return;
+          }
+
+          // Processors own the frame they're given - closing it if they return a new one
+          const processed = await runProcessors(frame, processors);
+
+          const scaled = scaler.scale(processed);
+          if (scaled !== processed) processed.close();
+          state.liveFrames.add(scaled);
+
+          controller.enqueue({ frame: scaled, index: item.index });
         },
       },
       { highWaterMark: 5 } // Keep render buffer small
     );
   }
-
-  private async renderFrame(frame: VideoFrame): Promise<VideoFrame> {
-    // For now, just return the original frame
-    // Later: Add WebGPU processing, filters, upscaling, etc.
-    return frame;
-  }
 }
 
 /**
  * TransformStream that encodes video frames into chunks
  * Handles encoder queue backpressure
- * Uses frame index to determine keyframes
+ * Counts encoded frames to place keyframes (frames may have been dropped upstream)
  */
 class VideoEncoderStream extends TransformStream<
   { frame: VideoFrame; index: number },
   { chunk: EncodedVideoChunk; meta: EncodedVideoChunkMetadata }
 > {
-  constructor(config: VideoEncoderConfig) {
+  constructor(config: VideoEncoderConfig, keyframeInterval: number, state: PipelineState) {
+    let encodedCount = 0;
+    let encoder: VideoEncoder;
+
     super(
       {
         start(controller) {
           // Save controller reference for progress reporting
-          encoderController = controller;
+          state.encoderController = controller;
 
           encoder = new VideoEncoder({
             output: (chunk, meta) => {
@@ -186,6 +238,12 @@ class VideoEncoderStream extends TransformStream<
           });
 
           encoder.configure(config);
+          state.encoder = encoder;
+
+          // Tear down the encoder straight away on abort - don't wait for the stream to drain
+          state.signal?.addEventListener('abort', () => {
+            if (encoder.state !== 'closed') encoder.close();
+          }, { once: true });
         },
 
         async transform(item, controller) {
@@ -200,9 +258,11 @@ class VideoEncoderStream extends TransformStream<
             await new Promise((r) => setTimeout(r, 10));
           }
 
-          // Encode with keyframe every 60 frames
-          encoder.encode(item.frame, { keyFrame: item.index % 60 === 0 });
+          // Encode with keyframe every keyframeInterval frames
+          encoder.encode(item.frame, { keyFrame: encodedCount % keyframeInterval === 0 });
           item.frame.close();
+          state.liveFrames.delete(item.frame);
+          encodedCount++;
         },
 
         async flush(controller) {
@@ -228,6 +288,7 @@ class VideoEncoderStream extends TransformStream<
  */
 function createVideoMuxerWriter(
   muxer: Muxer<StreamTarget>,
+  state: PipelineState,
   options?: { onProgress?: (progress: TranscodeProgress) => void }
 ): WritableStream<{ chunk: EncodedVideoChunk; meta: EncodedVideoChunkMetadata }> {
   const startTime = performance.now();
@@ -248,6 +309,8 @@ function createVideoMuxerWriter(
         // Calculate buffer sizes from controller.desiredSize
         // desiredSize = highWaterMark - currentBufferSize
         // So: currentBufferSize = highWaterMark - desiredSize
+        const { demuxerController, decoderController, renderController, encoderController } = state;
+
         const demuxerBufferSize = demuxerController
           ? (20 - (demuxerController.desiredSize ?? 0))
           : 0;
@@ -272,14 +335,14 @@ function createVideoMuxerWriter(
             bufferSize: Math.max(0, demuxerBufferSize),
           },
           decoder: {
-            decodeQueueSize: decoder?.decodeQueueSize ?? 0,
+            decodeQueueSize: state.decoder?.decodeQueueSize ?? 0,
             bufferSize: Math.max(0, decoderBufferSize),
           },
           render: {
             bufferSize: Math.max(0, renderBufferSize),
           },
           encoder: {
-            encodeQueueSize: encoder?.encodeQueueSize ?? 0,
+            encodeQueueSize: state.encoder?.encodeQueueSize ?? 0,
             bufferSize: Math.max(0, encoderBufferSize),
           },
         };
@@ -300,7 +363,7 @@ function createVideoMuxerWriter(
 
 /**
  * Create a WritableStream that feeds audio chunks to the muxer
- * Simple pass-through - no transcoding needed
+ * Receives either pass-through chunks from the demuxer or re-encoded chunks
  */
 function createAudioMuxerWriter(
   muxer: Muxer<StreamTarget>
@@ -309,7 +372,7 @@ function createAudioMuxerWriter(
 
   return new WritableStream({
     async write(chunk) {
-      // Add audio chunk to muxer (pass-through)
+      // Add audio chunk to muxer
       if(chunk.timestamp >= 0){
         muxer.addAudioChunk(chunk);
       }
@@ -350,7 +413,7 @@ export interface TranscodeProgress {
 }
 
 
-export interface TranscodePipelineOptions {
+export interface TranscodePipelineOptions extends TranscodeOptions {
   onProgress?: (progress: TranscodeProgress) => void;
 }
 
@@ -363,6 +426,17 @@ export async function transcodePipeline(
 ): Promise<Blob> {
   console.log('Starting transcode with Streams Pipeline pattern (segment-based streaming)');
 
+  throwIfAborted(options?.signal);
+
+  const state: PipelineState = { signal: options?.signal, liveFrames: new Set() };
+
+  // Close any frames still queued between stages when the transcode is aborted
+  const closeLiveFrames = () => {
+    for (const frame of state.liveFrames) frame.close();
+    state.liveFrames.clear();
+  };
+  state.signal?.addEventListener('abort', closeLiveFrames, { once: true });
+
   // Step 1: Set up demuxer to get metadata
  // const demuxer = new MP4Demuxer(file);
 
@@ -370,20 +444,59 @@ export async function transcodePipeline(
     wasmFilePath: "https://cdn.jsdelivr.net/npm/web-demuxer@latest/dist/wasm-files/web-demuxer.wasm",
   });
 
+  try {
+    return await runPipeline(demuxer, file, options, state);
+  } catch (e) {
+    // Stages fail in various ways once their codecs are closed - report them all as an abort
+    if (state.signal?.aborted) throw createAbortError();
+    throw e;
+  } finally {
+    state.signal?.removeEventListener('abort', closeLiveFrames);
+    demuxer.destroy();
+  }
+}
 
+/**
+ * Demux → decode → render → encode → mux, once the demuxer exists
+ */
+async function runPipeline(
+  demuxer: WebDemuxer,
+  file: File,
+  options: TranscodePipelineOptions | undefined,
+  state: PipelineState
+): Promise<Blob> {
   await demuxer.load(<File> file);
 
   const mediaInfo = await demuxer.getMediaInfo();
   const videoTrack = mediaInfo.streams.filter((s)=>s.codec_type_string === 'video')[0];
   const audioTrack = mediaInfo.streams.filter((s)=>s.codec_type_string === 'audio')[0];
 
-  const videoDecoderConfig = await demuxer.getDecoderConfig('video');
-  const audioConfig = await demuxer.getDecoderConfig('audio');
+  // start / end in microseconds (null = whole file)
+  const trim = getTrimRange(mediaInfo.duration, options);
+  if (trim && options?.trimMode === 'smart') {
+    console.warn("Smart cut: only the 'promise' method copies GOPs, re-encoding the whole range");
+  }
+
+  // Step 2: Decide which tracks to keep (stripAudio / stripVideo)
+  const outputTracks = getOutputTracks(!!videoTrack, !!audioTrack, options);
+
+  const videoDecoderConfig = outputTracks.video ? await demuxer.getDecoderConfig('video') : null;
+  const audioConfig = outputTracks.audio ? await demuxer.getDecoderConfig('audio') : null;
 
+  // Copy AAC/Opus as-is, re-encode anything mp4-muxer can't carry (MP3, Vorbis...)
+  const audioPlan = audioConfig ? await getAudioOutputPlan(audioConfig) : null;
 
-  const duration = videoTrack.duration;
-  const width = videoTrack.width;
-  const height = videoTrack.height;
+
+  // Render stage: caller's processors + subtitle burn-in
+  const processors = videoDecoderConfig ? await getFrameProcessors(options, trim) : [];
+
+  // Output codec / size / bitrate, validated with VideoEncoder.isConfigSupported before starting
+  const videoSettings = videoDecoderConfig
+    ? await getVideoOutputSettings(getProcessedSize(videoTrack.width, videoTrack.height, processors), options?.video)
+    : null;
+
+  // Setup is all async - bail out before creating any codecs if we were cancelled meanwhile
+  throwIfAborted(state.signal);
 
 
 
@@ -400,71 +513,88 @@ export async function transcodePipeline(
 });
   const muxerOptions: any = {
     target,
-    video: {
-      codec: 'avc',
-      width,
-      height,
-    },
     firstTimestampBehavior: 'offset',
     fastStart: 'in-memory',
   };
 
-  if (audioConfig) {
+  if (videoSettings) {
+    muxerOptions.video = {
+      codec: videoSettings.codec,
+      width: videoSettings.encoderConfig.width,
+      height: videoSettings.encoderConfig.height,
+    };
+  }
+
+  if (audioPlan) {
     muxerOptions.audio = {
-      codec: 'aac',
-      numberOfChannels: audioConfig.numberOfChannels,
-      sampleRate: audioConfig.sampleRate,
+      codec: audioPlan.codec,
+      numberOfChannels: audioPlan.numberOfChannels,
+      sampleRate: audioPlan.sampleRate,
     };
   }
 
   const muxer = new Muxer(muxerOptions);
 
-  // Step 4: Configure encoder
-  const bitrate = getBitrate(width, height, 30, 'good');
+  if (videoSettings) {
+    // Step 4: Configure encoder
+    const videoEncoderConfig = videoSettings.encoderConfig;
 
-  const videoEncoderConfig: VideoEncoderConfig = {
-    codec: getCodecString('avc', width, height, bitrate),
-    width: width,
-    height: height,
-    bitrate: Math.round(bitrate),
-    framerate: 30,
-  };
-
-  // Step 5: Create the pipeline with true streaming!
-  // WebDemuxerStream → Decoder → Render → Encoder → Muxer
+    // Step 5: Create the pipeline with true streaming!
+    // WebDemuxerStream → Decoder → Render → Encoder → Muxer
 
 
 
-  // Get the native ReadableStream from web-demuxer
-  // This handles keyframes, GOP boundaries, and streaming properly
-  const chunkStream = <ReadableStream> demuxer.read('video', 0);
+    // Get the native ReadableStream from web-demuxer
+    // This handles keyframes, GOP boundaries, and streaming properly
+    // With a trim start, reading begins at the preceding keyframe
+    const chunkStream = <ReadableStream> (trim
+      ? demuxer.read('video', trim.start / 1e6, trim.end / 1e6)
+      : demuxer.read('video', 0));
 
-  // Build the pipeline with automatic backpressure
-  const encodedStream = chunkStream
-    .pipeThrough(new DemuxerTrackingStream())       // Track demuxer → decoder buffer
-    .pipeThrough(new VideoDecoderStream(videoDecoderConfig))
-    .pipeThrough(new VideoRenderStream())
-    .pipeThrough(new VideoEncoderStream(videoEncoderConfig));
+    // Build the pipeline with automatic backpressure
+    const encodedStream = chunkStream
+      .pipeThrough(new DemuxerTrackingStream(state))       // Track demuxer → decoder buffer
+      .pipeThrough(new VideoDecoderStream(videoDecoderConfig, state))
+      .pipeThrough(new VideoRenderStream(videoEncoderConfig.width, videoEncoderConfig.height, options?.video?.framerate, trim, processors, state))
+      .pipeThrough(new VideoEncoderStream(videoEncoderConfig, videoSettings.keyframeInterval ?? 60, state));
 
-  // Step 6: Pipe video to muxer writer
-  const videoWriter = createVideoMuxerWriter(muxer, {
-    onProgress: options?.onProgress
-  });
+    // Step 6: Pipe video to muxer writer
+    const videoWriter = createVideoMuxerWriter(muxer, state, {
+      onProgress: options?.onProgress
+    });
 
-  await encodedStream.pipeTo(videoWriter);
+    await encodedStream.pipeTo(videoWriter, { signal: state.signal });
+  }
 
-  // Step 7: Pipe audio to muxer writer (pass-through, no transcoding)
+  // Step 7: Pipe audio to muxer writer
   if (audioConfig) {
     console.log('Streaming audio chunks...');
-    const audioStream = <ReadableStream<EncodedAudioChunk>> demuxer.read('audio', 0);
+    // Cut audio at the same boundaries as the video, before any re-encoding
+    let audioStream = trim
+      ? (<ReadableStream<EncodedAudioChunk>> demuxer.read('audio', trim.start / 1e6, trim.end / 1e6))
+          .pipeThrough(new AudioTrimStream(trim))
+      : <ReadableStream<EncodedAudioChunk>> demuxer.read('audio', 0);
+
+    if (audioPlan.encoderConfig) {
+      // Source codec can't go in an MP4 as-is: decode → (resample/downmix) → encode
+      console.log(`Re-encoding ${audioConfig.codec} audio to ${audioPlan.encoderConfig.codec}`);
+      let decodedStream = audioStream.pipeThrough(new AudioDecoderStream(audioConfig, state.signal));
+
+      if (audioPlan.sampleRate !== audioConfig.sampleRate || audioPlan.numberOfChannels !== audioConfig.numberOfChannels) {
+        decodedStream = decodedStream.pipeThrough(new AudioResampleStream(audioPlan.sampleRate, audioPlan.numberOfChannels));
+      }
+
+      audioStream = decodedStream.pipeThrough(new AudioEncoderStream(audioPlan.encoderConfig, state.signal));
+    }
+
     const audioWriter = createAudioMuxerWriter(muxer);
-    await audioStream.pipeTo(audioWriter);
+    await audioStream.pipeTo(audioWriter, { signal: state.signal });
   }
 
   // Step 8: Finalize
   muxer.finalize();
 
-  const blob = storage.toBlob('video/mp4');
+  const blob = storage.toBlob(getOutputMimeType(outputTracks));
 
   console.log(`Transcoding complete! Output size: ${blob.size} bytes`);
 
@@ -1,5 +1,14 @@
-import { MP4Demuxer, getBitrate } from 'webcodecs-utils';
+import { MP4Demuxer } from 'webcodecs-utils';
 import { Muxer, ArrayBufferTarget } from 'mp4-muxer';
+import { TranscodeOptions, getOutputTracks, getOutputMimeType, createAbortError, throwIfAborted, getFrameProcessors } from './transcode-options';
+import { AudioOutputPlan, getAudioOutputPlan } from './audio-codec-support';
+import { AudioResampler } from './audio-resample-stream';
+import { VideoOutputSettings, getVideoOutputSettings, FrameRateLimiter } from './video-output';
+import { FrameScaler } from './frame-scaler';
+import { TrimRange, getTrimRange, trimVideoFrame, trimAudioChunk } from './trim';
+import { SmartCutPlan, getSmartCutPlan, smartCutVideoTrack } from './smart-cut';
+import { FrameProcessor, runProcessors, getProcessedSize } from './processors';
+import type { TranscodeProgress } from './transcode-pipeline';
 
 /**
  * Transcoding implementation - Promise pattern
@@ -13,76 +22,237 @@ import { Muxer, ArrayBufferTarget } from 'mp4-muxer';
  * - Simple to understand and debug
  */
 
+export interface TranscodePromiseOptions extends TranscodeOptions {
+  onProgress?: (progress: TranscodeProgress) => void;
+}
+
+/**
+ * The file loaded and checked for smart cut - see prepareSmartCut()
+ */
+export interface PreparedSmartCut {
+  demuxer: MP4Demuxer;
+  plan: SmartCutPlan | null;    // null = the video track is re-encoded
+}
+
+/**
+ * Load the file and work out whether a smart-cut trim can copy its video
+ *
+ * Lets transcodeFile() pick the method once the plan exists - pass the result
+ * on to transcodePromise() so the file isn't loaded twice.
+ */
+export async function prepareSmartCut(file: File, options?: TranscodeOptions): Promise<PreparedSmartCut> {
+  const demuxer = new MP4Demuxer(file);
+  await demuxer.load();
+
+  throwIfAborted(options?.signal);
+
+  return { demuxer, plan: await getSmartCut(demuxer, options) };
+}
+
+/**
+ * Smart-cut plan for the video track, or null if the whole range is re-encoded
+ */
+async function getSmartCut(demuxer: MP4Demuxer, options?: TranscodeOptions): Promise<SmartCutPlan | null> {
+  const trackData = demuxer.getTracks();
+  const outputTracks = getOutputTracks(!!trackData.video, !!trackData.audio, options);
+  const trim = getTrimRange(trackData.duration, options);
+
+  if (!outputTracks.video || !trim || options?.trimMode !== 'smart') return null;
+
+  // Smart cut copies the source video, so it only applies when no output settings were asked for
+  if (options.video || options.processors?.length || options.subtitles) {
+    console.warn('Smart cut: video output options, processors and subtitles need a full re-encode, ignoring trimMode');
+    return null;
+  }
+
+  return getSmartCutPlan(demuxer, trim, trackData.duration);
+}
+
 /**
- * Placeholder render function - returns the frame unchanged
- * TODO: Add WebGPU filter or other video processing here
+ * Progress in the same shape as the pipeline's - this path has no stage buffers,
+ * so only the codec queues are filled in
  */
-async function renderFrame(frame: VideoFrame): Promise<VideoFrame> {
-  // For now, just return the original frame
-  // Later: Add WebGPU processing, filters, upscaling, etc.
-  return frame;
+function reportProgress(
+  onProgress: ((progress: TranscodeProgress) => void) | undefined,
+  frameCount: number,
+  startTime: number,
+  decoder?: VideoDecoder,
+  encoder?: VideoEncoder
+) {
+  if (!onProgress) return;
+
+  const elapsedSeconds = (performance.now() - startTime) / 1000;
+
+  onProgress({
+    frameCount,
+    elapsedSeconds,
+    fps: frameCount / elapsedSeconds,
+    demuxer: { bufferSize: 0 },
+    decoder: { decodeQueueSize: decoder?.decodeQueueSize ?? 0, bufferSize: 0 },
+    render: { bufferSize: 0 },
+    encoder: { encodeQueueSize: encoder?.encodeQueueSize ?? 0, bufferSize: 0 },
+  });
 }
 
-export async function transcodePromise(file: File): Promise<Blob> {
+/**
+ * Render function - runs the frame processors, then scales to the output size (if needed)
+ * Takes ownership of the frame: the result may be a new frame, with the input closed
+ */
+async function renderFrame(frame: VideoFrame, processors: FrameProcessor[], scaler: FrameScaler): Promise<VideoFrame> {
+  const processed = await runProcessors(frame, processors);
+
+  const scaled = scaler.scale(processed);
+  if (scaled !== processed) processed.close();
+
+  return scaled;
+}
+
+/**
+ * @param prepared - From prepareSmartCut(), if the caller already loaded the file
+ */
+export async function transcodePromise(file: File, options?: TranscodePromiseOptions, prepared?: PreparedSmartCut): Promise<Blob> {
   console.log('Starting transcode with Promise pattern');
 
+  const signal = options?.signal;
+  throwIfAborted(signal);
+
   // Step 1: Demux the input file
-  const demuxer = new MP4Demuxer(file);
-  await demuxer.load();
+  const { demuxer, plan: smartCut } = prepared ?? await prepareSmartCut(file, options);
+
+  throwIfAborted(signal);
 
   const trackData = demuxer.getTracks();
-  const videoDecoderConfig = demuxer.getVideoDecoderConfig();
-  const videoChunks = await demuxer.extractSegment('video', 0, trackData.duration);
 
-  console.log(`Processing ${videoChunks.length} video chunks`);
+  // Decide which tracks to keep (stripAudio / stripVideo)
+  const outputTracks = getOutputTracks(!!trackData.video, !!trackData.audio, options);
 
-  // Step 2: Extract audio chunks (pass-through, no re-encoding)
+  // start / end in microseconds (null = whole file)
+  const trim = getTrimRange(trackData.duration, options);
+  const segmentStart = trim ? trim.start / 1e6 : 0;
+  const segmentEnd = trim ? trim.end / 1e6 : trackData.duration;
+
+  // Step 2: Extract audio chunks (pass-through for AAC/Opus, re-encoded otherwise)
   let audioChunks: EncodedAudioChunk[] | null = null;
   let audioConfig = null;
-  try {
-    audioChunks = await demuxer.extractSegment('audio', 0, trackData.duration);
+  let audioPlan: AudioOutputPlan | null = null;
+  if (outputTracks.audio) {
+    audioChunks = await demuxer.extractSegment('audio', segmentStart, segmentEnd);
+    // Cut at the same boundaries as the video, before any re-encoding
+    if (trim) audioChunks = audioChunks.map((chunk) => trimAudioChunk(chunk, trim)).filter(Boolean);
     audioConfig = demuxer.getAudioDecoderConfig();
+    audioPlan = await getAudioOutputPlan(audioConfig);
     console.log(`Found ${audioChunks.length} audio chunks`);
-  } catch (e) {
-    console.log('No audio track found, skipping...');
+
+    if (audioPlan.encoderConfig) {
+      console.log(`Re-encoding ${audioConfig.codec} audio to ${audioPlan.encoderConfig.codec}`);
+      audioChunks = await reencodeAudioChunks(audioChunks, audioConfig, audioPlan, signal);
+    }
   }
 
+  throwIfAborted(signal);
+
+  // Render stage: caller's processors + subtitle burn-in
+  const processors = outputTracks.video ? await getFrameProcessors(options, trim) : [];
+
+  // Output codec / size / bitrate, validated with VideoEncoder.isConfigSupported before starting
+  const videoSettings = outputTracks.video && !smartCut
+    ? await getVideoOutputSettings({
+        ...getProcessedSize(trackData.video.codedWidth, trackData.video.codedHeight, processors),
+        frameRate: trackData.video.frameRate || undefined,
+      }, options?.video)
+    : null;
+
+  throwIfAborted(signal);
+
   // Step 3: Set up muxer for output
   const target = new ArrayBufferTarget();
 
   const muxerOptions: any = {
     target,
-    video: {
-      codec: 'avc',
-      width: trackData.video.codedWidth,
-      height: trackData.video.codedHeight,
-    },
     firstTimestampBehavior: 'offset',
     fastStart: 'in-memory',
   };
 
-  if (audioConfig) {
+  if (videoSettings) {
+    muxerOptions.video = {
+      codec: videoSettings.codec,
+      width: videoSettings.encoderConfig.width,
+      height: videoSettings.encoderConfig.height,
+    };
+  } else if (smartCut) {
+    muxerOptions.video = {
+      codec: smartCut.codec,
+      width: smartCut.width,
+      height: smartCut.height,
+    };
+  }
+
+  if (audioPlan) {
     muxerOptions.audio = {
-      codec: 'aac',
-      numberOfChannels: audioConfig.numberOfChannels,
-      sampleRate: audioConfig.sampleRate,
+      codec: audioPlan.codec,
+      numberOfChannels: audioPlan.numberOfChannels,
+      sampleRate: audioPlan.sampleRate,
     };
   }
 
-  const muxer = new Muxer(muxerOptions);
+  const muxer = new Muxer<ArrayBufferTarget>(muxerOptions);
 
-  // Step 4: Configure video encoder
-  const bitrate = getBitrate(trackData.video.codedWidth, trackData.video.codedHeight, 30, 'good');
+  // Steps 4-8: Decode → render → encode the video track (or copy it, re-encoding only the cut GOPs)
+  if (videoSettings) {
+    await transcodeVideoTrack(demuxer, muxer, videoSettings, segmentStart, segmentEnd, trim, processors, options);
+  } else if (smartCut) {
+    const startTime = performance.now();
+    await smartCutVideoTrack(smartCut, muxer, trim, signal, (frameCount) => {
+      if (frameCount % 30 === 0) reportProgress(options?.onProgress, frameCount, startTime);
+    });
+  }
 
-  console.log(bitrate)
+  throwIfAborted(signal);
 
-  const videoEncoderConfig: VideoEncoderConfig = {
-    codec: 'avc1.42001f', // Baseline profile
-    width: trackData.video.codedWidth,
-    height: trackData.video.codedHeight,
-    bitrate: Math.round(bitrate),
-    framerate: trackData.video.frameRate || 30,
-  };
+  // Step 9: Add audio chunks
+  if (audioChunks && audioConfig) {
+    console.log('Adding audio chunks...');
+    for (const audio_chunk of audioChunks) {
+      muxer.addAudioChunk(audio_chunk);
+    }
+  }
+
+  // Step 10: Finalize
+  muxer.finalize();
+
+  const arrayBuffer = target.buffer;
+  const blob = new Blob([arrayBuffer], { type: getOutputMimeType(outputTracks) });
+
+  console.log(`Transcoding complete! Output size: ${blob.size} bytes`);
+
+  return blob;
+}
+
+/**
+ * Decode, render and re-encode the video track into the muxer
+ */
+async function transcodeVideoTrack(
+  demuxer: MP4Demuxer,
+  muxer: Muxer<ArrayBufferTarget>,
+  settings: VideoOutputSettings,
+  segmentStart: number,
+  segmentEnd: number,
+  trim: TrimRange | null,
+  processors: FrameProcessor[],
+  options?: TranscodePromiseOptions
+): Promise<void> {
+  const signal = options?.signal;
+  const videoDecoderConfig = demuxer.getVideoDecoderConfig();
+  // With a trim start, extraction begins at the preceding keyframe
+  const videoChunks = await demuxer.extractSegment('video', segmentStart, segmentEnd);
+
+  console.log(`Processing ${videoChunks.length} video chunks`);
+
+  // Step 4: Configure video encoder
+  const videoEncoderConfig = settings.encoderConfig;
+  const scaler = new FrameScaler(videoEncoderConfig.width, videoEncoderConfig.height);
+  const limiter = new FrameRateLimiter(options?.video?.framerate);
+  let encodedCount = 0;
 
   // Step 5: Set up decoder and encoder with callback queues
   const decode_callbacks: Array<(frame: VideoFrame) => void> = [];
@@ -130,6 +300,12 @@ export async function transcodePromise(file: File): Promise<Blob> {
     decoder.decode(chunk);
   }
 
+  // Decoders hold the last frames back until flushed - short (e.g. trimmed) clips
+  // are queued in full here and never reach the flush in the sliding window below
+  if (videoChunks.length > 0 && videoChunks.length <= decoder_buffer_length) {
+    await decoder.flush();
+  }
+
   // Step 7: Process frames sequentially with sliding window
   const encode_promises: Array<Promise<void>> = [];
   const startTime = performance.now();
@@ -141,32 +317,58 @@ export async function transcodePromise(file: File): Promise<Blob> {
     // Await the decoded frame
     const frame = await decode_promise;
 
-    // Process the frame (placeholder - currently just returns the same frame)
-    const processed_frame = await renderFrame(frame);
+    // Cancelled - close this frame and any already decoded ahead of it, then tear down the codecs
+    if (signal?.aborted) {
+      frame.close();
+      for (const pending of decode_promises.slice(i + 1)) {
+        pending.then((f) => f.close());
+      }
+      if (encoder.state !== 'closed') encoder.close();
+      if (decoder.state !== 'closed') decoder.close();
+      throw createAbortError();
+    }
 
-    // Create encode promise
-    encode_promises.push(
-      new Promise<void>((resolve) => {
-        encode_callbacks.push(() => resolve());
-      })
-    );
+    // Discard the lead-in before the trim start, re-timestamp the rest from zero
+    const trimmed_frame = trimVideoFrame(frame, trim);
 
-    // Wait if encoder queue is too large
-    if (encoder.encodeQueueSize >= 20) {
-      await new Promise<void>((resolve) => {
-        function check() {
-          if (encoder.encodeQueueSize < 20) {
-            resolve();
-          } else {
-            setTimeout(check, 100);
+    // Drop frames above the target frame rate
+    if (trimmed_frame && limiter.keep(trimmed_frame.timestamp)) {
+      // Process the frame (runs the processors, scales to the output size if needed)
+      const processed_frame = await renderFrame(trimmed_frame, processors, scaler);
+
+      // Create encode promise
+      encode_promises.push(
+        new Promise<void>((resolve) => {
+          encode_callbacks.push(() => resolve());
+        })
+      );
+
+      // Wait if encoder queue is too large
+      if (encoder.encodeQueueSize >= 20) {
+        await new Promise<void>((resolve) => {
+          function check() {
+            if (encoder.encodeQueueSize < 20) {
+              resolve();
+            } else {
+              setTimeout(check, 100);
+            }
           }
-        }
-        check();
-      });
-    }
+          check();
+        });
+      }
+
+      // Encode the frame - follow source keyframes unless an interval was requested
+      // (the first output frame is always a keyframe, it may not be one in the source after trimming)
+      const keyFrame = settings.keyframeInterval
+        ? encodedCount % settings.keyframeInterval === 0
+        : encodedCount === 0 || source_chunk.type === 'key';
+      encoder.encode(processed_frame, { keyFrame });
+      encodedCount++;
 
-    // Encode the frame
-    encoder.encode(processed_frame, { keyFrame: source_chunk.type === 'key' });
+      processed_frame.close();
+    } else {
+      trimmed_frame?.close();
+    }
 
     if(i+1 === videoChunks.length){
       if (encoder.state === 'configured') await encoder.flush();
@@ -174,9 +376,6 @@ export async function transcodePromise(file: File): Promise<Blob> {
 
     // Close frames to free memory
     frame.close();
-    if (processed_frame !== frame) {
-      processed_frame.close();
-    }
 
 
 
@@ -193,7 +392,6 @@ export async function transcodePromise(file: File): Promise<Blob> {
       decoder.decode(next_chunk);
 
       if(i+decoder_buffer_length + 1 == videoChunks.length){
-        console.log("Flush decoder")
         await decoder.flush();
       }
 
@@ -209,6 +407,7 @@ export async function transcodePromise(file: File): Promise<Blob> {
       const rate = i / (elapsed / 1000); // frames per second
       const eta = ((videoChunks.length - i) / rate).toFixed(1);
       console.log(`Progress: ${progress}% (${i}/${videoChunks.length}) - ETA: ${eta}s`);
+      reportProgress(options?.onProgress, encodedCount, startTime, decoder, encoder);
     }
   }
 
@@ -220,21 +419,6 @@ export async function transcodePromise(file: File): Promise<Blob> {
 
   console.log('All frames encoded');
 
-  // Step 9: Add audio chunks (pass-through)
-  if (audioChunks && audioConfig) {
-    console.log('Adding audio chunks...');
-    for (const audio_chunk of audioChunks) {
-      muxer.addAudioChunk(audio_chunk);
-    }
-  }
-
-  // Step 10: Finalize and cleanup
-  muxer.finalize();
-
-  const arrayBuffer = target.buffer;
-  const blob = new Blob([arrayBuffer], { type: 'video/mp4' });
-
-  console.log(`Transcoding complete! Output size: ${blob.size} bytes`);
 
   // Cleanup
   try {
@@ -243,6 +427,73 @@ export async function transcodePromise(file: File): Promise<Blob> {
   } catch (e) {
     console.error('Error closing encoder/decoder:', e);
   }
+}
 
-  return blob;
+/**
+ * Decode → (resample/downmix) → encode audio chunks the muxer can't carry as-is
+ * Each decoded AudioData is encoded straight away so the whole track is never held as PCM
+ */
+async function reencodeAudioChunks(
+  chunks: EncodedAudioChunk[],
+  decoderConfig: AudioDecoderConfig,
+  plan: AudioOutputPlan,
+  signal?: AbortSignal
+): Promise<EncodedAudioChunk[]> {
+  const encodedChunks: EncodedAudioChunk[] = [];
+
+  const resampler = plan.sampleRate !== decoderConfig.sampleRate || plan.numberOfChannels !== decoderConfig.numberOfChannels
+    ? new AudioResampler(plan.sampleRate, plan.numberOfChannels)
+    : null;
+
+  const encoder = new AudioEncoder({
+    output(chunk) {
+      encodedChunks.push(chunk);
+    },
+    error(e) {
+      console.error('Audio encoder error:', e);
+      throw e;
+    },
+  });
+
+  const decoder = new AudioDecoder({
+    output(audioData) {
+      const output = resampler ? resampler.process(audioData) : audioData;
+      if (!output) return;
+      encoder.encode(output);
+      output.close();
+    },
+    error(e) {
+      console.error('Audio decoder error:', e);
+      throw e;
+    },
+  });
+
+  encoder.configure(plan.encoderConfig!);
+  decoder.configure(decoderConfig);
+
+  // Closing the codecs makes the pending flush() calls reject
+  const onAbort = () => {
+    if (decoder.state !== 'closed') decoder.close();
+    if (encoder.state !== 'closed') encoder.close();
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    for (const chunk of chunks) {
+      throwIfAborted(signal);
+      decoder.decode(chunk);
+    }
+
+    await decoder.flush();
+    await encoder.flush();
+  } catch (e) {
+    if (signal?.aborted) throw createAbortError();
+    throw e;
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    if (decoder.state !== 'closed') decoder.close();
+    if (encoder.state !== 'closed') encoder.close();
+  }
+
+  return encodedChunks;
 }
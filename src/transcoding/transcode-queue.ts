@@ -0,0 +1,102 @@
+import { TranscodeJob } from './transcode-job';
+import { TranscodeFileOptions } from './transcoder';
+
+/**
+ * Runs TranscodeJobs with a limit on how many transcode at once
+ * Every job holds its own decoder/encoder, so the limit is what keeps
+ * batch processing from exhausting hardware codec instances and memory.
+ */
+export class TranscodeQueue {
+  private concurrency: number;
+  private pending: TranscodeJob[] = [];
+  private running = new Set<TranscodeJob>();
+  private idleResolvers: Array<() => void> = [];
+
+  constructor(concurrency: number = 2) {
+    this.concurrency = TranscodeQueue.validateConcurrency(concurrency);
+  }
+
+  /**
+   * Queue a file - the returned job starts once a slot is free
+   */
+  add(file: File, options?: TranscodeFileOptions): TranscodeJob {
+    const job = new TranscodeJob(file, options);
+    this.pending.push(job);
+    this.next();
+    return job;
+  }
+
+  /**
+   * Change the concurrency limit - raising it starts queued jobs straight away,
+   * lowering it lets running jobs finish
+   */
+  setConcurrency(concurrency: number): void {
+    this.concurrency = TranscodeQueue.validateConcurrency(concurrency);
+    this.next();
+  }
+
+  getConcurrency(): number {
+    return this.concurrency;
+  }
+
+  /**
+   * Jobs that are queued or running
+   */
+  getJobs(): TranscodeJob[] {
+    return [...this.running, ...this.pending.filter((job) => job.status === 'queued')];
+  }
+
+  /**
+   * Cancel every queued and running job
+   */
+  cancelAll(): void {
+    for (const job of this.getJobs()) job.cancel();
+    this.pending = [];
+    this.checkIdle();
+  }
+
+  /**
+   * Resolves once no jobs are queued or running
+   */
+  onIdle(): Promise<void> {
+    if (this.getJobs().length === 0) return Promise.resolve();
+    return new Promise((resolve) => this.idleResolvers.push(resolve));
+  }
+
+  private next() {
+    while (this.running.size < this.concurrency && this.pending.length > 0) {
+      const job = this.pending.shift()!;
+
+      // Cancelled while waiting
+      if (job.status !== 'queued') continue;
+
+      this.running.add(job);
+      job.start()
+        .catch(() => {
+          // Failures are reported through the job itself
+        })
+        .finally(() => {
+          this.running.delete(job);
+          this.next();
+          this.checkIdle();
+        });
+    }
+
+    this.checkIdle();
+  }
+
+  private checkIdle() {
+    if (this.getJobs().length > 0) return;
+
+    const resolvers = this.idleResolvers;
+    this.idleResolvers = [];
+    resolvers.forEach((resolve) => resolve());
+  }
+
+  private static validateConcurrency(concurrency: number): number {
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error(`Concurrency must be a positive integer, got ${concurrency}`);
+    }
+    return concurrency;
+  }
+}
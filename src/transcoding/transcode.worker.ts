@@ -0,0 +1,75 @@
+import { transcodeFile, TranscodeFileOptions } from './transcoder';
+import { TranscodeProgress } from './transcode-pipeline';
+
+/**
+ * Transcode Worker
+ *
+ * Runs transcodeFile() off the main thread so long (4K) jobs don't jank the UI.
+ * One worker handles one transcode at a time.
+ *
+ * Commands:
+ * - 'transcode': { file, options } → { blob } or { error, name }
+ * - 'cancel': aborts the running transcode
+ *
+ * Progress is posted with request_id 'progress' (a persistent listener on the main thread)
+ */
+
+let abortController: AbortController | null = null;
+
+self.onmessage = async function(event: MessageEvent) {
+  const { cmd, data, request_id } = event.data;
+
+  switch (cmd) {
+    case 'transcode': {
+      const { file, options } = <{ file: File; options: TranscodeFileOptions }> data;
+      abortController = new AbortController();
+
+      try {
+        const blob = await transcodeFile(file, {
+          ...options,
+          signal: abortController.signal,
+          pipelineOptions: {
+            ...options.pipelineOptions,
+            onProgress: (progress: TranscodeProgress) => {
+              self.postMessage({
+                request_id: 'progress',
+                res: progress
+              });
+            },
+          },
+        });
+
+        self.postMessage({
+          request_id,
+          res: { blob }
+        });
+      } catch (error) {
+        // Errors don't survive postMessage as-is - send the name so AbortError can be rebuilt
+        self.postMessage({
+          request_id,
+          res: {
+            error: error instanceof Error ? error.message : String(error),
+            name: error instanceof Error ? error.name : 'Error'
+          }
+        });
+      } finally {
+        abortController = null;
+      }
+      break;
+    }
+
+    case 'cancel':
+      abortController?.abort();
+      self.postMessage({
+        request_id,
+        res: true
+      });
+      break;
+
+    default:
+      self.postMessage({
+        request_id,
+        res: { error: `Unknown command: ${cmd}`, name: 'Error' }
+      });
+  }
+};
@@ -1,6 +1,7 @@
 /**
  * Video transcoding using WebCodecs API
  * Demonstrates decode → encode pipeline with audio pass-through
+ * (audio is re-encoded only when the source codec can't go in an MP4 as-is)
  *
  * This file provides three different implementation patterns:
  * - Promise pattern (free.upscaler approach)
@@ -8,12 +9,13 @@
  * - Pipeline pattern (experimental)
  */
 
-import { transcodePromise } from './transcode-promise';
+import { transcodePromise, prepareSmartCut } from './transcode-promise';
 import { transcodePipeline, TranscodePipelineOptions } from './transcode-pipeline';
+import { TranscodeOptions } from './transcode-options';
 
 export type TranscodeMethod = 'promise' | 'waterfall' | 'pipeline';
 
-export interface TranscodeFileOptions {
+export interface TranscodeFileOptions extends TranscodeOptions {
   method?: TranscodeMethod;
   pipelineOptions?: TranscodePipelineOptions;
 }
@@ -26,21 +28,34 @@ export async function transcodeFile(
   methodOrOptions?: TranscodeMethod | TranscodeFileOptions
 ): Promise<Blob> {
   // Handle legacy string argument or new options object
-  let method: TranscodeMethod = 'pipeline';
+  let method: TranscodeMethod | undefined;
   let pipelineOptions: TranscodePipelineOptions | undefined;
+  let options: TranscodeOptions = {};
 
   if (typeof methodOrOptions === 'string') {
     method = methodOrOptions;
   } else if (methodOrOptions) {
-    method = methodOrOptions.method ?? 'pipeline';
-    pipelineOptions = methodOrOptions.pipelineOptions;
+    const { method: methodOption, pipelineOptions: pipelineOption, ...sharedOptions } = methodOrOptions;
+    method = methodOption;
+    pipelineOptions = pipelineOption;
+    options = sharedOptions;
   }
 
-  switch (method) {
+  const onProgress = pipelineOptions?.onProgress;
+
+  // Smart-cut trimming works on MP4Demuxer chunks, which only the promise path uses. Unless
+  // a method was asked for, take that path - the file is already loaded to plan the cut, so
+  // when it can't be smart-cut (the plan logs why) it is re-encoded there rather than loaded again
+  if (!method && options.trimMode === 'smart' && (options.start !== undefined || options.end !== undefined)) {
+    const prepared = await prepareSmartCut(file, options);
+    return transcodePromise(file, { ...options, onProgress }, prepared);
+  }
+
+  switch (method ?? 'pipeline') {
     case 'promise':
-      return transcodePromise(file);
+      return transcodePromise(file, { ...options, onProgress });
     case 'pipeline':
-      return transcodePipeline(file, pipelineOptions);
+      return transcodePipeline(file, { ...options, ...pipelineOptions });
     default:
       throw new Error(`Unknown transcode method: ${method}`);
   }
@@ -0,0 +1,89 @@
+import type { TranscodeOptions } from './transcode-options';
+
+/**
+ * Section of the source to keep, in microseconds
+ */
+export interface TrimRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Resolve the start / end options against the source duration
+ * @param duration - Source duration in seconds
+ * @returns null when the whole file is kept
+ * @throws Error if the range is empty or starts past the end of the file
+ */
+export function getTrimRange(duration: number, options?: TranscodeOptions): TrimRange | null {
+  if (options?.start === undefined && options?.end === undefined) return null;
+
+  const start = Math.max(0, options.start ?? 0);
+  const end = Math.min(duration, options.end ?? duration);
+
+  if (start >= duration) {
+    throw new Error(`Trim start (${start}s) is past the end of the file (${duration}s)`);
+  }
+  if (end <= start) {
+    throw new Error(`Trim end (${end}s) must be after start (${start}s)`);
+  }
+
+  return { start: Math.round(start * 1e6), end: Math.round(end * 1e6) };
+}
+
+/**
+ * Drop or re-timestamp a decoded frame so the output starts at zero
+ * Frames before start are the decode-and-discard lead-in from the preceding keyframe.
+ * Closes the input.
+ * @returns The frame to keep, or null if it's outside the range
+ */
+export function trimVideoFrame(frame: VideoFrame, range: TrimRange | null): VideoFrame | null {
+  if (!range) return frame;
+
+  if (frame.timestamp < range.start || frame.timestamp >= range.end) {
+    frame.close();
+    return null;
+  }
+
+  const trimmed = new VideoFrame(frame, {
+    timestamp: frame.timestamp - range.start,
+    duration: frame.duration ?? undefined,
+  });
+  frame.close();
+
+  return trimmed;
+}
+
+/**
+ * Drop or re-timestamp an encoded audio chunk at the same boundaries as the video
+ * Cuts on whole chunks - the first kept chunk is the first one starting at or after start.
+ * @returns The chunk to keep, or null if it's outside the range
+ */
+export function trimAudioChunk(chunk: EncodedAudioChunk, range: TrimRange | null): EncodedAudioChunk | null {
+  if (!range) return chunk;
+
+  if (chunk.timestamp < range.start || chunk.timestamp >= range.end) return null;
+
+  const data = new Uint8Array(chunk.byteLength);
+  chunk.copyTo(data);
+
+  return new EncodedAudioChunk({
+    type: chunk.type,
+    timestamp: chunk.timestamp - range.start,
+    duration: chunk.duration ?? undefined,
+    data,
+  });
+}
+
+/**
+ * TransformStream version of trimAudioChunk for the pipeline
+ */
+export class AudioTrimStream extends TransformStream<EncodedAudioChunk, EncodedAudioChunk> {
+  constructor(range: TrimRange) {
+    super({
+      transform(chunk, controller) {
+        const trimmed = trimAudioChunk(chunk, range);
+        if (trimmed) controller.enqueue(trimmed);
+      },
+    });
+  }
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getOutputSize, FrameRateLimiter } from './video-output';
+
+// webcodecs-utils starts a Worker on import - only getBitrate / getCodecString come from it
+vi.mock('webcodecs-utils', () => ({}));
+
+describe('getOutputSize', () => {
+  it('keeps the source size without options', () => {
+    expect(getOutputSize(1920, 1080)).toEqual({ width: 1920, height: 1080 });
+  });
+
+  it('derives the other dimension from width or height alone', () => {
+    expect(getOutputSize(1920, 1080, { width: 1280 })).toEqual({ width: 1280, height: 720 });
+    expect(getOutputSize(1920, 1080, { height: 480 })).toEqual({ width: 854, height: 480 });
+  });
+
+  it('fits inside width x height keeping the aspect ratio', () => {
+    expect(getOutputSize(1920, 1080, { width: 1000, height: 1000 })).toEqual({ width: 1000, height: 562 });
+    expect(getOutputSize(1080, 1920, { width: 1280, height: 720 })).toEqual({ width: 406, height: 720 });
+  });
+
+  it('rounds to even dimensions', () => {
+    // 641 wide makes 360.56 high - both are rounded to the nearest even number
+    expect(getOutputSize(1920, 1080, { width: 641 })).toEqual({ width: 642, height: 360 });
+    expect(getOutputSize(1001, 999)).toEqual({ width: 1002, height: 1000 });
+  });
+
+  it('never goes below 2 pixels', () => {
+    expect(getOutputSize(1920, 10, { width: 100 })).toEqual({ width: 100, height: 2 });
+  });
+});
+
+describe('FrameRateLimiter', () => {
+  /** Timestamps (µs) of the frames kept out of `count` frames at `sourceRate` */
+  function keptFrames(limiter: FrameRateLimiter, sourceRate: number, count: number): number[] {
+    const kept: number[] = [];
+    for (let i = 0; i < count; i++) {
+      const timestamp = Math.round((i * 1e6) / sourceRate);
+      if (limiter.keep(timestamp)) kept.push(timestamp);
+    }
+    return kept;
+  }
+
+  it('keeps every frame without a target rate', () => {
+    expect(keptFrames(new FrameRateLimiter(), 60, 10)).toHaveLength(10);
+  });
+
+  it('halves 60fps to 30fps', () => {
+    const kept = keptFrames(new FrameRateLimiter(30), 60, 60);
+    expect(kept).toHaveLength(30);
+    expect(kept.slice(0, 3)).toEqual([0, 33333, 66667]);
+  });
+
+  it('drops every fifth frame going from 30fps to 24fps', () => {
+    expect(keptFrames(new FrameRateLimiter(24), 30, 30)).toHaveLength(24);
+  });
+
+  it("doesn't drop frames when the rates already match", () => {
+    // 29.97fps timestamps rounded to µs land either side of the 30fps slots
+    expect(keptFrames(new FrameRateLimiter(30), 29.97, 100)).toHaveLength(100);
+  });
+
+  it('starts its slots at the first frame it sees', () => {
+    const limiter = new FrameRateLimiter(10);
+    expect(limiter.keep(5_000_000)).toBe(true);
+    expect(limiter.keep(5_050_000)).toBe(false);
+    expect(limiter.keep(5_100_000)).toBe(true);
+  });
+});
@@ -0,0 +1,126 @@
+import { getBitrate, getCodecString } from 'webcodecs-utils';
+
+/**
+ * Video codecs that can be encoded with WebCodecs and written by mp4-muxer
+ */
+export type VideoOutputCodec = 'avc' | 'hevc' | 'vp9' | 'av1';
+
+/**
+ * Quality presets understood by webcodecs-utils getBitrate()
+ */
+export type VideoQuality = 'low' | 'good' | 'high' | 'very-high';
+
+/**
+ * Output video settings - anything left out falls back to the source / defaults
+ */
+export interface VideoOutputOptions {
+  codec?: VideoOutputCodec;      // Default: 'avc'
+  width?: number;                // Fit inside width x height keeping the source aspect ratio.
+  height?: number;               // If only one is given the other is derived from it.
+  bitrate?: number;              // Bits per second - takes precedence over quality
+  quality?: VideoQuality;        // Default: 'good'
+  framerate?: number;            // Lower than the source = frames are dropped
+  keyframeInterval?: number;     // Frames between keyframes
+}
+
+/**
+ * Resolved output settings, validated against the browser's encoder
+ */
+export interface VideoOutputSettings {
+  codec: VideoOutputCodec;            // Codec for the muxer
+  encoderConfig: VideoEncoderConfig;
+  keyframeInterval?: number;
+}
+
+/**
+ * Work out the output size, preserving the source aspect ratio
+ * Dimensions are rounded to even numbers since 4:2:0 encoders require it
+ */
+export function getOutputSize(
+  sourceWidth: number,
+  sourceHeight: number,
+  options?: VideoOutputOptions
+): { width: number; height: number } {
+  let scale = 1;
+
+  if (options?.width && options?.height) {
+    scale = Math.min(options.width / sourceWidth, options.height / sourceHeight);
+  } else if (options?.width) {
+    scale = options.width / sourceWidth;
+  } else if (options?.height) {
+    scale = options.height / sourceHeight;
+  }
+
+  const toEven = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+  return {
+    width: toEven(sourceWidth * scale),
+    height: toEven(sourceHeight * scale),
+  };
+}
+
+/**
+ * Build the VideoEncoderConfig for a transcode and check the browser can encode it
+ * @param source - Source video dimensions and frame rate (if known)
+ * @param options - Requested output settings
+ * @throws Error if the encoder doesn't support the resulting config
+ */
+export async function getVideoOutputSettings(
+  source: { width: number; height: number; frameRate?: number },
+  options?: VideoOutputOptions
+): Promise<VideoOutputSettings> {
+  const codec = options?.codec ?? 'avc';
+  const { width, height } = getOutputSize(source.width, source.height, options);
+  const framerate = options?.framerate ?? source.frameRate ?? 30;
+  const bitrate = options?.bitrate ?? getBitrate(width, height, framerate, options?.quality ?? 'good');
+
+  const encoderConfig: VideoEncoderConfig = {
+    codec: getCodecString(codec, width, height, bitrate),
+    width,
+    height,
+    bitrate: Math.round(bitrate),
+    framerate,
+  };
+
+  const support = await VideoEncoder.isConfigSupported(encoderConfig);
+  if (!support.supported) {
+    throw new Error(`Video encoder does not support ${encoderConfig.codec} at ${width}x${height}, ${Math.round(bitrate)}bps`);
+  }
+
+  return {
+    codec,
+    encoderConfig,
+    keyframeInterval: options?.keyframeInterval,
+  };
+}
+
+/**
+ * Drops frames to bring the source frame rate down to a target frame rate
+ * Keeps the first frame at or after each output frame slot
+ */
+export class FrameRateLimiter {
+  private frameDuration: number;   // Microseconds between output frames
+  private nextFrameTime: number | null = null;
+
+  constructor(framerate?: number) {
+    this.frameDuration = framerate ? 1e6 / framerate : 0;
+  }
+
+  /**
+   * Should this frame be kept?
+   * @param timestamp - Frame timestamp in microseconds
+   */
+  keep(timestamp: number): boolean {
+    if (!this.frameDuration) return true;
+
+    // 10% tolerance so timestamp rounding doesn't drop frames when the rates already match
+    if (this.nextFrameTime !== null && timestamp < this.nextFrameTime - this.frameDuration * 0.1) {
+      return false;
+    }
+
+    this.nextFrameTime = (this.nextFrameTime ?? timestamp) + this.frameDuration;
+    while (this.nextFrameTime <= timestamp) this.nextFrameTime += this.frameDuration;
+
+    return true;
+  }
+}
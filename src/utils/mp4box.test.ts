@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { getMP4BoxFile } from './mp4box';
+
+describe('getMP4BoxFile', () => {
+  it('returns the MP4Box file of a loaded demuxer', () => {
+    const file = { getTrackSamplesInfo: () => [], moov: {} };
+
+    expect(getMP4BoxFile({ mp4Data: { mp4: file } } as any)).toBe(file);
+  });
+
+  it('throws a clear error when the demuxer has no MP4Box file', () => {
+    expect(() => getMP4BoxFile({} as any)).toThrow('MP4Demuxer has no MP4Box file');
+    expect(() => getMP4BoxFile({ mp4Data: {} } as any)).toThrow('MP4Demuxer has no MP4Box file');
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Typed access to the MP4Box file inside webcodecs-utils' MP4Demuxer
+ * Shared by the player demuxers and thumbnail generation, which need the sample
+ * table and trex defaults MP4Demuxer doesn't expose
+ */
+import type { MP4Demuxer } from 'webcodecs-utils';
+
+/**
+ * One entry of a track's sample table, as MP4Box reports it
+ */
+export interface MP4BoxSample {
+  dts: number;          // Track timescale units
+  cts: number;          // Track timescale units
+  duration: number;     // Track timescale units
+  offset: number;       // Byte offset in the file
+  size: number;         // Bytes
+  is_sync: boolean;
+  timescale: number;
+}
+
+/**
+ * Sample defaults for one track, from the moov's mvex/trex box
+ */
+export interface MP4BoxTrex {
+  track_id: number;
+  default_sample_duration: number;
+  default_sample_size: number;
+  default_sample_flags: number;
+}
+
+/**
+ * The parts of MP4Box's ISOFile this codebase reads
+ */
+export interface MP4BoxFile {
+  getTrackSamplesInfo(trackId: number): MP4BoxSample[];
+  moov: { mvex?: { trexs?: MP4BoxTrex[] } };
+}
+
+/**
+ * The MP4Box file behind an MP4Demuxer
+ * @throws Error if the demuxer hasn't loaded a file yet (or no longer keeps it where expected)
+ */
+export function getMP4BoxFile(demuxer: MP4Demuxer): MP4BoxFile {
+  const file: MP4BoxFile | undefined = demuxer.mp4Data?.mp4;
+  if (!file) {
+    throw new Error('MP4Demuxer has no MP4Box file - call load() first');
+  }
+  return file;
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { CueIndex, SubtitleCue, parseSubtitles } from './subtitles';
+
+describe('parseSubtitles', () => {
+  it('parses SRT with comma milliseconds and numeric indexes', () => {
+    const cues = parseSubtitles('1\n00:00:01,500 --> 00:00:03,000\nHello\n\n2\n00:01:02,250 --> 01:00:00,000\nTwo\nlines\n');
+
+    expect(cues).toEqual([
+      { start: 1.5, end: 3, text: 'Hello' },
+      { start: 62.25, end: 3600, text: 'Two\nlines' },
+    ]);
+  });
+
+  it('parses WebVTT with optional hours, cue ids and cue settings', () => {
+    const cues = parseSubtitles(
+      'WEBVTT - Title\n\nNOTE a comment\nover two lines\n\nSTYLE\n::cue { color: red }\n\n' +
+      'intro\n00:05.000 --> 00:07.500 align:start line:0\n<v Ann>Hi</v>\n\n' +
+      '1:02:03.004 --> 1:02:04.000\n<i>Later</i>'
+    );
+
+    expect(cues).toEqual([
+      { start: 5, end: 7.5, text: 'Hi' },
+      { start: 3723.004, end: 3724, text: 'Later' },
+    ]);
+  });
+
+  it('reads short fractions as milliseconds', () => {
+    // ".5" and ",05" are 500ms and 50ms, not 5ms
+    const [cue] = parseSubtitles('00:00:01.5 --> 00:00:02,05\nShort');
+    expect(cue.start).toBe(1.5);
+    expect(cue.end).toBeCloseTo(2.05);
+  });
+
+  it('handles a BOM, CRLF line endings and extra blank lines', () => {
+    const cues = parseSubtitles('\uFEFFWEBVTT\r\n\r\n\r\n00:00.000 --> 00:01.000\r\nOne\r\n\r\n\r\n\r\n00:01.000 --> 00:02.000\r\nTwo\r\n');
+    expect(cues.map((cue) => cue.text)).toEqual(['One', 'Two']);
+  });
+
+  it('strips tags, SSA overrides and entities', () => {
+    const [cue] = parseSubtitles('1\n00:00:00,000 --> 00:00:01,000\n{\\an8}<b>Tom &amp; Jerry</b> &lt;3&nbsp;<c.loud>!</c>');
+    expect(cue.text).toBe('Tom & Jerry <3 !');
+  });
+
+  it('sorts cues by start time', () => {
+    const cues = parseSubtitles('00:00:05.000 --> 00:00:06.000\nB\n\n00:00:01.000 --> 00:00:02.000\nA');
+    expect(cues.map((cue) => cue.text)).toEqual(['A', 'B']);
+  });
+
+  it('throws when there are no cues', () => {
+    expect(() => parseSubtitles('WEBVTT\n\nNOTE nothing here')).toThrow('No subtitle cues found');
+  });
+});
+
+describe('CueIndex', () => {
+  const cues: SubtitleCue[] = [
+    { start: 0, end: 10, text: 'long' },
+    { start: 2, end: 3, text: 'short' },
+    { start: 5, end: 6, text: 'middle' },
+    { start: 12, end: 14, text: 'last' },
+  ];
+  const index = new CueIndex(cues);
+  const textsAt = (time: number) => index.getActiveCues(time).map((cue) => cue.text);
+
+  it('finds overlapping cues in start order', () => {
+    expect(textsAt(2.5)).toEqual(['long', 'short']);
+    expect(textsAt(5.5)).toEqual(['long', 'middle']);
+  });
+
+  it('includes the start and excludes the end', () => {
+    expect(textsAt(12)).toEqual(['last']);
+    expect(textsAt(3)).toEqual(['long']);
+    expect(textsAt(14)).toEqual([]);
+  });
+
+  it('finds nothing before the first cue or in gaps', () => {
+    expect(textsAt(-1)).toEqual([]);
+    expect(textsAt(11)).toEqual([]);
+  });
+
+  it("doesn't depend on the input order", () => {
+    const shuffled = new CueIndex([cues[3], cues[1], cues[0], cues[2]]);
+    expect(shuffled.getActiveCues(2.5).map((cue) => cue.text)).toEqual(['long', 'short']);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * SRT / WebVTT parsing and time-indexed cue lookup
+ * Shared by subtitle burn-in (transcoding) and text tracks (player)
+ */
+
+export interface SubtitleCue {
+  start: number;   // Seconds
+  end: number;     // Seconds
+  text: string;    // Plain text, lines separated by '\n' (markup tags removed)
+}
+
+const TIMING = /((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+
+/**
+ * Parse an SRT or WebVTT file into cues sorted by start time
+ * @throws Error if no cues are found
+ */
+export function parseSubtitles(source: string): SubtitleCue[] {
+  const blocks = source
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n{2,}/);
+
+  const cues: SubtitleCue[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split('\n').filter((line) => line.trim() !== '');
+
+    // The timing line is the first or second line (after an SRT index / VTT cue id).
+    // WEBVTT headers, NOTE, STYLE and REGION blocks have none and are skipped.
+    const timingIndex = lines.findIndex((line, i) => i < 2 && TIMING.test(line));
+    if (timingIndex < 0) continue;
+
+    const [, start, end] = TIMING.exec(lines[timingIndex])!;
+    const text = lines
+      .slice(timingIndex + 1)
+      .map(stripMarkup)
+      .join('\n');
+
+    cues.push({ start: parseTimestamp(start), end: parseTimestamp(end), text });
+  }
+
+  if (cues.length === 0) {
+    throw new Error('No subtitle cues found - expected an SRT or WebVTT file');
+  }
+
+  return cues.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * hh:mm:ss,mmm (SRT) or [hh:]mm:ss.mmm (VTT) → seconds
+ */
+function parseTimestamp(timestamp: string): number {
+  const [time, fraction] = timestamp.split(/[.,]/);
+  const parts = time.split(':').map(Number);
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+  return seconds + Number(fraction.padEnd(3, '0')) / 1000;
+}
+
+/**
+ * Remove <i>, <b>, <c.class>, <v Speaker> style tags and SSA {\an8} overrides
+ */
+function stripMarkup(line: string): string {
+  return line
+    .replace(/<[^>]+>/g, '')
+    .replace(/\{\\[^}]*\}/g, '')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ');
+}
+
+/**
+ * Finds the cues showing at a given time
+ * Cues may overlap, so a running max of end times tells the backwards scan where to stop.
+ */
+export class CueIndex {
+  readonly cues: SubtitleCue[];
+  private maxEnd: number[];   // maxEnd[i] = latest end among cues[0..i]
+
+  constructor(cues: SubtitleCue[]) {
+    this.cues = [...cues].sort((a, b) => a.start - b.start);
+
+    this.maxEnd = [];
+    let maxEnd = -Infinity;
+    for (const cue of this.cues) {
+      maxEnd = Math.max(maxEnd, cue.end);
+      this.maxEnd.push(maxEnd);
+    }
+  }
+
+  /**
+   * Cues with start <= time < end, in start order
+   * @param time - Seconds
+   */
+  getActiveCues(time: number): SubtitleCue[] {
+    // Last cue starting at or before time
+    let low = 0;
+    let high = this.cues.length - 1;
+    let last = -1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (this.cues[mid].start <= time) {
+        last = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    const active: SubtitleCue[] = [];
+    for (let i = last; i >= 0 && this.maxEnd[i] > time; i--) {
+      if (this.cues[i].end > time) active.unshift(this.cues[i]);
+    }
+    return active;
+  }
+}